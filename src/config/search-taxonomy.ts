@@ -0,0 +1,61 @@
+import { BrowseSearchType, TaxonomyTerm } from '../types/store-config.types';
+
+/**
+ * Taxonomía común de categorías y marcas para búsquedas `type: "category"` y `type: "brand"`
+ *
+ * Cada tienda traduce el id a su propio slug en `search.category.values` / `search.brand.values`;
+ * las tiendas que no mapean el id se omiten (unsupported_type).
+ *
+ * Ejemplo (YAML de la tienda):
+ *
+ *   search:
+ *     category:
+ *       url_template: "https://tienda.com/{category}.html"
+ *       encoding: path
+ *       values:
+ *         herramientas-electricas: "herramientas/electricas"
+ */
+export const SEARCH_TAXONOMY: Record<BrowseSearchType, TaxonomyTerm[]> = {
+  category: [
+    { id: 'herramientas-electricas', name: 'Herramientas eléctricas', aliases: ['herramienta electrica', 'power tools'] },
+    { id: 'herramientas-manuales', name: 'Herramientas manuales', aliases: ['herramienta manual', 'hand tools'] },
+    { id: 'pinturas', name: 'Pinturas', aliases: ['pintura'] },
+    { id: 'plomeria', name: 'Plomería', aliases: ['fontaneria'] },
+    { id: 'electricidad', name: 'Electricidad', aliases: ['material electrico'] },
+    { id: 'iluminacion', name: 'Iluminación', aliases: ['lamparas', 'bombillos'] },
+    { id: 'jardin', name: 'Jardín', aliases: ['jardineria'] },
+    { id: 'materiales-construccion', name: 'Materiales de construcción', aliases: ['construccion'] },
+    { id: 'tornilleria', name: 'Tornillería', aliases: ['fijaciones', 'tornillos'] },
+    { id: 'seguridad-industrial', name: 'Seguridad industrial', aliases: ['equipo de proteccion'] },
+  ],
+  brand: [
+    { id: 'dewalt', name: 'DeWalt' },
+    { id: 'makita', name: 'Makita' },
+    { id: 'bosch', name: 'Bosch' },
+    { id: 'stanley', name: 'Stanley' },
+    { id: 'truper', name: 'Truper' },
+    { id: 'pretul', name: 'Pretul' },
+    { id: 'black-decker', name: 'Black+Decker', aliases: ['black and decker', 'black & decker'] },
+    { id: 'milwaukee', name: 'Milwaukee' },
+    { id: '3m', name: '3M' },
+    { id: 'sherwin-williams', name: 'Sherwin-Williams', aliases: ['sherwin williams'] },
+  ],
+};
+
+/**
+ * Busca un término por id, nombre o alias (sin distinguir mayúsculas ni tildes)
+ */
+export function findTaxonomyTerm(type: BrowseSearchType, text: string): TaxonomyTerm | undefined {
+  const wanted = normalizeTerm(text);
+  return SEARCH_TAXONOMY[type].find(term =>
+    [term.id, term.name, ...(term.aliases || [])].some(value => normalizeTerm(value) === wanted));
+}
+
+function normalizeTerm(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9+&]+/g, ' ')
+    .trim();
+}
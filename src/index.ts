@@ -10,6 +10,11 @@ import { searchRouter } from './routes/search.routes';
 import { compareRouter } from './routes/compare.routes';
 import { llmConfigRouter } from './routes/llm-config.routes';
 import { errorHandler } from './middleware/errorHandler';
+import { getBrowserPoolService } from './services/browser-pool.service';
+import { getPolitenessService } from './services/politeness.service';
+import { getProxyService } from './services/proxy.service';
+import { getFixtureService } from './services/fixture.service';
+import { getStoreConfigService } from './services/store-config.service';
 
 dotenv.config();
 
@@ -21,7 +26,7 @@ app.use(helmet());
 app.use(cors({
   origin: ['http://localhost:3000', 'http://localhost:3001'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 app.use(morgan('dev'));
@@ -29,7 +34,14 @@ app.use(express.json());
 
 // Routes
 app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    browserPool: getBrowserPoolService().getMetrics(),
+    rateLimits: getPolitenessService().getMetrics(),
+    proxies: getProxyService().getMetrics(),
+    fixturesMode: getFixtureService().getMode()
+  });
 });
 
 app.use('/api/search', searchRouter);      // 🆕 Búsqueda multi-tienda (principal)
@@ -46,5 +58,7 @@ app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+  getStoreConfigService().logValidationReport();
+  getStoreConfigService().startWatching();
 });
 export default app;
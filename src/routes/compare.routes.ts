@@ -1,5 +1,6 @@
 import express from 'express';
 import { ComparisonService } from '../services/comparison.service';
+import { AvailabilityStatus } from '../types/store-config.types';
 
 const router: express.Router = express.Router();
 const comparisonService = new ComparisonService();
@@ -25,6 +26,10 @@ export interface CompareResponse {
       description?: string | string[];  // Puede ser texto o lista
       brand?: string;
       availability?: string;
+      availability_status?: AvailabilityStatus;
+      availability_quantity?: number;
+      sku?: string;
+      gtin?: string;
       specifications?: Record<string, any>;
       images?: string[];
     }>;
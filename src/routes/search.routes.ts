@@ -1,15 +1,112 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { getMultiStoreSearchService } from '../services/multi-store-search.service';
+import { AVAILABILITY_STATUSES, isAvailabilityStatus } from '../utils/availability';
+import { AvailabilityStatus, BrowseSearchType, SearchType, TaxonomyTerm } from '../types/store-config.types';
+import { getStoreConfigService } from '../services/store-config.service';
+import { findUnknownStores, StoreSelection } from '../utils/store-selection';
+import { parseSearchParams } from '../utils/search-url';
+import { findTaxonomyTerm, SEARCH_TAXONOMY } from '../config/search-taxonomy';
 
 export const searchRouter: Router = Router();
 
+/**
+ * Interpreta el filtro de disponibilidad del body
+ * Acepta un estado ("in_stock") o una lista (["in_stock", "low_stock"])
+ * Retorna null si contiene estados inválidos
+ */
+function parseAvailabilityFilter(value: unknown): AvailabilityStatus[] | undefined | null {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const statuses = Array.isArray(value) ? value : [value];
+  return statuses.every(isAvailabilityStatus) ? statuses : null;
+}
+
+const INVALID_AVAILABILITY_ERROR = `El campo "availability" debe ser uno o varios de: ${AVAILABILITY_STATUSES.join(', ')}`;
+
+const STORE_SELECTION_FIELDS = ['includeStores', 'excludeStores', 'tags', 'excludeTags', 'regions'] as const;
+
+/**
+ * Interpreta la selección de tiendas del body (cada campo acepta un string o una lista)
+ * Retorna un error si algún campo no es texto o si se nombra una tienda que no existe
+ */
+function parseStoreSelection(body: unknown): { selection: StoreSelection } | { error: string } {
+  const fields = isObject(body) ? body : {};
+  const selection: StoreSelection = {};
+
+  for (const field of STORE_SELECTION_FIELDS) {
+    const value = fields[field];
+    if (value === undefined || value === null) continue;
+
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    if (!values.every(isNonEmptyString)) {
+      return { error: `El campo "${field}" debe ser un texto o una lista de textos` };
+    }
+    selection[field] = values;
+  }
+
+  const knownStores = getStoreConfigService().listAvailableStores();
+  const unknown = [
+    ...findUnknownStores(selection.includeStores, knownStores),
+    ...findUnknownStores(selection.excludeStores, knownStores),
+  ];
+  if (unknown.length > 0) {
+    return { error: `Tiendas no configuradas: ${unknown.join(', ')}` };
+  }
+
+  return { selection };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+const SEARCH_TYPES: SearchType[] = ['open_search', 'category', 'brand'];
+
+const TERM_LABELS: Record<BrowseSearchType, string> = {
+  category: 'Categoría',
+  brand: 'Marca',
+};
+
+/**
+ * Interpreta el tipo de búsqueda del body
+ * Con type category/brand, `search` debe ser el id, nombre o alias de un término de la taxonomía
+ */
+function parseSearchType(body: unknown): { type: SearchType; term?: TaxonomyTerm } | { error: string } {
+  const { type = 'open_search', search } = isObject(body) ? body : {};
+  if (!isSearchType(type)) {
+    return { error: `El campo "type" debe ser uno de: ${SEARCH_TYPES.join(', ')}` };
+  }
+  if (type === 'open_search') {
+    return { type };
+  }
+
+  const term = findTaxonomyTerm(type, String(search));
+  if (!term) {
+    return { error: `${TERM_LABELS[type]} no reconocida: "${search}" (ver GET /api/search/taxonomy)` };
+  }
+  return { type, term };
+}
+
+function isSearchType(value: unknown): value is SearchType {
+  return typeof value === 'string' && (SEARCH_TYPES as string[]).includes(value);
+}
+
 /**
  * POST /api/search
  * Busca en todas las tiendas configuradas automáticamente
+ * Opcional: includeStores, excludeStores, tags, excludeTags y regions para buscar en un subconjunto
+ * Opcional: params ({ page, sort, category, min_price, max_price, page_size }) para las tiendas que los soporten
+ * type: "category" | "brand" lista la categoría o marca `search` en cada tienda que la tenga configurada
  */
 searchRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { search, type = 'open_search', topN, filter, maxPages } = req.body;
+    const { search, topN, filter, maxPages } = req.body;
 
     if (!search) {
       return res.status(400).json({
@@ -18,19 +115,48 @@ searchRouter.post('/', async (req: Request, res: Response, next: NextFunction) =
       });
     }
 
-    if (type !== 'open_search') {
+    const availability = parseAvailabilityFilter(req.body.availability);
+    if (availability === null) {
+      return res.status(400).json({
+        success: false,
+        error: INVALID_AVAILABILITY_ERROR
+      });
+    }
+
+    const storeSelection = parseStoreSelection(req.body);
+    if ('error' in storeSelection) {
+      return res.status(400).json({
+        success: false,
+        error: storeSelection.error
+      });
+    }
+
+    const searchParams = parseSearchParams(req.body.params);
+    if ('error' in searchParams) {
       return res.status(400).json({
         success: false,
-        error: 'Por ahora solo se soporta type: "open_search"'
+        error: searchParams.error
+      });
+    }
+
+    const searchType = parseSearchType(req.body);
+    if ('error' in searchType) {
+      return res.status(400).json({
+        success: false,
+        error: searchType.error
       });
     }
 
     const multiStoreService = getMultiStoreSearchService();
     const result = await multiStoreService.searchAllStores(search, {
-      type,
+      type: searchType.type,
+      term: searchType.term,
       topN,
       filter,
-      maxPages  // Permitir controlar cuántas páginas scrapear
+      maxPages,  // Permitir controlar cuántas páginas scrapear
+      availability,
+      stores: storeSelection.selection,
+      params: searchParams.params
     });
 
     res.json({
@@ -44,6 +170,32 @@ searchRouter.post('/', async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
+/**
+ * GET /api/search/taxonomy
+ * Categorías y marcas disponibles para type "category" / "brand", con las tiendas que tienen su listado
+ */
+searchRouter.get('/taxonomy', (_req: Request, res: Response) => {
+  const configService = getStoreConfigService();
+  const stores = configService.listAvailableStores()
+    .map(domain => ({ domain, search: configService.getConfig(domain)?.search }));
+
+  const describe = (type: BrowseSearchType) => SEARCH_TAXONOMY[type].map(term => ({
+    ...term,
+    stores: stores
+      .filter(({ search }) => {
+        const browse = search?.[type];
+        return !!browse && browse.values[term.id] !== undefined;
+      })
+      .map(({ domain }) => domain)
+  }));
+
+  res.json({
+    success: true,
+    categories: describe('category'),
+    brands: describe('brand')
+  });
+});
+
 /**
  * POST /api/search/store/:domain
  * Busca en una tienda específica
@@ -60,8 +212,16 @@ searchRouter.post('/store/:domain', async (req: Request, res: Response, next: Ne
       });
     }
 
+    const searchParams = parseSearchParams(req.body.params);
+    if ('error' in searchParams) {
+      return res.status(400).json({
+        success: false,
+        error: searchParams.error
+      });
+    }
+
     const multiStoreService = getMultiStoreSearchService();
-    const result = await multiStoreService.searchInStore(domain, search);
+    const result = await multiStoreService.searchInStore(domain, search, searchParams.params);
 
     res.json(result);
   } catch (error) {
@@ -86,8 +246,47 @@ searchRouter.post('/scrape', async (req: Request, res: Response, next: NextFunct
       });
     }
 
+    const availability = parseAvailabilityFilter(req.body.availability);
+    if (availability === null) {
+      return res.status(400).json({
+        success: false,
+        error: INVALID_AVAILABILITY_ERROR
+      });
+    }
+
+    const storeSelection = parseStoreSelection(req.body);
+    if ('error' in storeSelection) {
+      return res.status(400).json({
+        success: false,
+        error: storeSelection.error
+      });
+    }
+
+    const searchParams = parseSearchParams(req.body.params);
+    if ('error' in searchParams) {
+      return res.status(400).json({
+        success: false,
+        error: searchParams.error
+      });
+    }
+
+    const searchType = parseSearchType(req.body);
+    if ('error' in searchType) {
+      return res.status(400).json({
+        success: false,
+        error: searchType.error
+      });
+    }
+
     const multiStoreService = getMultiStoreSearchService();
-    const result = await multiStoreService.scrapeAllStores(search, { maxPages });
+    const result = await multiStoreService.scrapeAllStores(search, {
+      type: searchType.type,
+      term: searchType.term,
+      maxPages,
+      availability,
+      stores: storeSelection.selection,
+      params: searchParams.params
+    });
 
     res.json({
       success: true,
@@ -115,8 +314,16 @@ searchRouter.post('/filter', async (req: Request, res: Response, next: NextFunct
       });
     }
 
+    const availability = parseAvailabilityFilter(req.body.availability);
+    if (availability === null) {
+      return res.status(400).json({
+        success: false,
+        error: INVALID_AVAILABILITY_ERROR
+      });
+    }
+
     const multiStoreService = getMultiStoreSearchService();
-    const result = await multiStoreService.filterProducts(search, stores, { topN, filter });
+    const result = await multiStoreService.filterProducts(search, stores, { topN, filter, availability });
 
     res.json({
       success: true,
@@ -1,8 +1,61 @@
-import { Router, Request, Response } from 'express';
-import { getStoreConfigService } from '../services/store-config.service';
+import { Router, Request, Response, NextFunction } from 'express';
+import * as jsYaml from 'js-yaml';
+import { getStoreConfigService, StoreWriteFailure, StoreWriteResult } from '../services/store-config.service';
+import { parseSearchParams } from '../utils/search-url';
 
 export const storesRouter: Router = Router();
 
+const WRITE_FAILURE_STATUS: Record<StoreWriteFailure, number> = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+  domain_mismatch: 400,
+};
+
+/**
+ * Lee la configuración del body: { yaml: "<contenido>" } o { config: { ... } }
+ * Con yaml se conserva el texto (`source`) para guardarlo tal cual, con sus comentarios
+ */
+function readDraft(body: unknown): { draft: unknown; source?: string } | { error: string } {
+  const { yaml, config } = isObject(body) ? body : {};
+
+  if (typeof yaml === 'string') {
+    try {
+      return { draft: jsYaml.load(yaml), source: yaml };
+    } catch (error) {
+      return { error: `YAML inválido: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
+  if (isObject(config)) {
+    return { draft: config };
+  }
+
+  return { error: 'yaml (string) o config (objeto) es requerido' };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sendWriteResult(res: Response, result: StoreWriteResult, successStatus: number = 200) {
+  if (!result.ok) {
+    return res.status(WRITE_FAILURE_STATUS[result.reason]).json({
+      success: false,
+      error: result.error,
+      errors: result.errors
+    });
+  }
+
+  return res.status(successStatus).json({
+    success: true,
+    store: result.store,
+    file: result.file,
+    backup: result.backup,
+    config: result.config ?? undefined
+  });
+}
+
 /**
  * GET /api/stores
  * Lista todas las tiendas configuradas
@@ -18,24 +71,102 @@ storesRouter.get('/', (_req: Request, res: Response) => {
   });
 });
 
+/**
+ * POST /api/stores/validate
+ * Valida un borrador de configuración sin guardarlo
+ * Body: { yaml: "<contenido del YAML>" } o { config: { ...configuración ya parseada } }
+ */
+storesRouter.post('/validate', (req: Request, res: Response) => {
+  const { yaml, config } = req.body || {};
+
+  if (typeof yaml !== 'string' && (typeof config !== 'object' || config === null)) {
+    return res.status(400).json({
+      success: false,
+      error: 'yaml (string) o config (objeto) es requerido'
+    });
+  }
+
+  const configService = getStoreConfigService();
+  const validation = typeof yaml === 'string'
+    ? configService.validateYaml(yaml)
+    : configService.validateDraft(config);
+
+  res.json({
+    success: true,
+    valid: validation.valid,
+    errors: validation.errors
+  });
+});
+
+/**
+ * POST /api/stores/reload
+ * Recarga desde disco las configuraciones que cambiaron (para entornos sin watcher)
+ */
+storesRouter.post('/reload', (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = getStoreConfigService().reloadAll('manual');
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/stores/reload/events
+ * Últimos eventos de recarga (watcher, API y recargas manuales)
+ */
+storesRouter.get('/reload/events', (_req: Request, res: Response) => {
+  const configService = getStoreConfigService();
+
+  res.json({
+    success: true,
+    watching: configService.isWatching(),
+    events: configService.getReloadEvents()
+  });
+});
+
 /**
  * GET /api/stores/:domain
  * Obtiene la configuración de una tienda específica
+ * Por defecto retorna el archivo tal como está; con ?resolved=true aplica las plantillas de `extends`
  */
 storesRouter.get('/:domain', (req: Request, res: Response) => {
   const { domain } = req.params;
   const configService = getStoreConfigService();
-  const config = configService.getConfig(domain);
+  const resolved = req.query.resolved === 'true';
+
+  if (!resolved) {
+    const raw = configService.getRawConfig(domain);
+    if (!raw.ok) {
+      return res.status(WRITE_FAILURE_STATUS[raw.reason]).json({
+        success: false,
+        error: raw.error,
+        errors: raw.errors
+      });
+    }
+
+    return res.json({
+      success: true,
+      resolved,
+      config: raw.config
+    });
+  }
 
+  const config = configService.getConfig(domain);
   if (!config) {
     return res.status(404).json({
       success: false,
-      error: `No existe configuración para el dominio: ${domain}`
+      error: `No existe configuración válida para el dominio: ${domain}`
     });
   }
 
   res.json({
     success: true,
+    resolved,
     config
   });
 });
@@ -43,6 +174,7 @@ storesRouter.get('/:domain', (req: Request, res: Response) => {
 /**
  * POST /api/stores/search-url
  * Genera URL de búsqueda para una tienda
+ * Opcional: params con los valores de los demás placeholders del url_template
  */
 storesRouter.post('/search-url', (req: Request, res: Response) => {
   const { domain, query } = req.body;
@@ -54,20 +186,102 @@ storesRouter.post('/search-url', (req: Request, res: Response) => {
     });
   }
 
+  const searchParams = parseSearchParams(req.body.params);
+  if ('error' in searchParams) {
+    return res.status(400).json({
+      success: false,
+      error: searchParams.error
+    });
+  }
+
   const configService = getStoreConfigService();
-  const searchUrl = configService.buildSearchUrl(domain, query);
+  const rendered = configService.renderSearchUrl(domain, query, searchParams.params);
 
-  if (!searchUrl) {
+  if (!rendered) {
     return res.status(404).json({
       success: false,
       error: `No existe configuración para el dominio: ${domain}`
     });
   }
 
+  if (!rendered.url) {
+    return res.status(400).json({
+      success: false,
+      error: `Faltan parámetros requeridos: ${rendered.missing.join(', ')}`
+    });
+  }
+
   res.json({
     success: true,
-    searchUrl,
+    searchUrl: rendered.url,
     domain,
-    query
+    query,
+    appliedParams: rendered.applied,
+    ignoredParams: rendered.ignored
   });
 });
+
+/**
+ * POST /api/stores
+ * Crea una tienda nueva (se guarda como <domain>.yaml)
+ * Body: { yaml: "<contenido del YAML>" } o { config: { ... } }
+ */
+storesRouter.post('/', (req: Request, res: Response, next: NextFunction) => {
+  const body = readDraft(req.body);
+  if ('error' in body) {
+    return res.status(400).json({ success: false, error: body.error });
+  }
+
+  try {
+    return sendWriteResult(res, getStoreConfigService().createStore(body.draft, body.source), 201);
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * PUT /api/stores/:domain
+ * Reemplaza la configuración completa de una tienda
+ */
+storesRouter.put('/:domain', (req: Request, res: Response, next: NextFunction) => {
+  const body = readDraft(req.body);
+  if ('error' in body) {
+    return res.status(400).json({ success: false, error: body.error });
+  }
+
+  try {
+    return sendWriteResult(res, getStoreConfigService().replaceStore(req.params.domain, body.draft, body.source));
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * PATCH /api/stores/:domain
+ * Cambios parciales como JSON merge patch (null elimina la clave)
+ * Body: { config: { scraping: { wait_time: 3000 } } }
+ */
+storesRouter.patch('/:domain', (req: Request, res: Response, next: NextFunction) => {
+  const body = readDraft(req.body);
+  if ('error' in body) {
+    return res.status(400).json({ success: false, error: body.error });
+  }
+
+  try {
+    return sendWriteResult(res, getStoreConfigService().patchStore(req.params.domain, body.draft));
+  } catch (error) {
+    return next(error);
+  }
+});
+
+/**
+ * DELETE /api/stores/:domain
+ * Elimina la configuración de una tienda (queda un respaldo en .backups/)
+ */
+storesRouter.delete('/:domain', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    return sendWriteResult(res, getStoreConfigService().deleteStore(req.params.domain));
+  } catch (error) {
+    return next(error);
+  }
+});
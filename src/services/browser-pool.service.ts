@@ -0,0 +1,338 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions, LaunchOptions, Page } from 'playwright';
+import { createContextLogger } from '../utils/logger';
+
+export interface BrowserPoolOptions {
+  maxContexts: number;        // Contextos activos en total (todas las tiendas)
+  maxPerDomain: number;       // Contextos activos por dominio (default si la tienda no define otro)
+  maxIdle: number;            // Contextos inactivos que se conservan para reutilizar
+  idleTimeoutMs: number;      // Tiempo máximo que un contexto inactivo se conserva
+}
+
+export interface AcquireOptions {
+  contextOptions?: BrowserContextOptions;
+  cookies?: Record<string, string>;
+  maxPerDomain?: number;      // Límite propio de la tienda (scraping.max_concurrency)
+}
+
+/**
+ * Página prestada por el pool: llamar release() al terminar (también si hubo error)
+ */
+export interface PoolLease {
+  context: BrowserContext;
+  page: Page;
+  release: () => Promise<void>;
+}
+
+export interface BrowserPoolMetrics {
+  active: number;
+  idle: number;
+  queued: number;
+  activeByDomain: Record<string, number>;
+  created: number;            // Contextos creados desde el inicio
+  reused: number;             // Préstamos servidos con un contexto reutilizado
+  acquired: number;
+  maxQueued: number;
+  avgWaitMs: number;          // Espera promedio en cola por préstamo
+  limits: BrowserPoolOptions;
+}
+
+interface IdleContext {
+  key: string;
+  context: BrowserContext;
+  releasedAt: number;
+}
+
+interface Waiter {
+  domain: string;
+  limit: number;
+  resolve: () => void;
+}
+
+/**
+ * Lee los límites del pool desde variables de entorno
+ */
+function readOptionsFromEnv(): BrowserPoolOptions {
+  const read = (name: string, fallback: number): number => {
+    const value = parseInt(process.env[name] || '', 10);
+    return value > 0 ? value : fallback;
+  };
+
+  return {
+    maxContexts: read('BROWSER_POOL_MAX_CONTEXTS', 4),
+    maxPerDomain: read('BROWSER_POOL_MAX_PER_DOMAIN', 2),
+    maxIdle: read('BROWSER_POOL_MAX_IDLE', 4),
+    idleTimeoutMs: read('BROWSER_POOL_IDLE_TIMEOUT_MS', 60000),
+  };
+}
+
+/**
+ * Pool compartido de contextos de Playwright
+ * - Un único browser para toda la app
+ * - Límite global y por dominio de contextos activos, con cola FIFO
+ * - Reutiliza contextos inactivos con la misma configuración (mismo dominio y opciones)
+ */
+export class BrowserPoolService {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private logger = createContextLogger('BrowserPool');
+
+  private active = 0;
+  private activeByDomain = new Map<string, number>();
+  private idle: IdleContext[] = [];
+  private queue: Waiter[] = [];
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  private stats = { created: 0, reused: 0, acquired: 0, maxQueued: 0, totalWaitMs: 0 };
+
+  constructor(private options: BrowserPoolOptions = readOptionsFromEnv()) {}
+
+  /**
+   * Obtiene (o lanza) el browser compartido
+   */
+  async getBrowser(): Promise<Browser> {
+    if (this.browser) {
+      return this.browser;
+    }
+
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+
+    return this.launching;
+  }
+
+  /**
+   * Presta una página nueva para la URL, esperando turno si se alcanzó algún límite
+   */
+  async acquire(url: string, options: AcquireOptions = {}): Promise<PoolLease> {
+    const domain = new URL(url).hostname;
+    const limit = Math.min(options.maxPerDomain || this.options.maxPerDomain, this.options.maxContexts);
+    const key = `${domain}|${JSON.stringify(options.contextOptions || {})}`;
+
+    const waitStart = Date.now();
+    await this.waitForSlot(domain, limit);
+    this.stats.acquired++;
+    this.stats.totalWaitMs += Date.now() - waitStart;
+
+    let context: BrowserContext | undefined;
+
+    try {
+      context = this.takeIdle(key);
+      if (context) {
+        this.stats.reused++;
+      } else {
+        const browser = await this.getBrowser();
+        context = await browser.newContext(options.contextOptions);
+        this.stats.created++;
+      }
+
+      if (options.cookies && Object.keys(options.cookies).length > 0) {
+        const origin = new URL(url).origin;
+        await context.addCookies(
+          Object.entries(options.cookies).map(([name, value]) => ({ name, value, url: origin }))
+        );
+      }
+
+      const page = await context.newPage();
+      const leasedContext = context;
+      let released = false;
+
+      return {
+        context: leasedContext,
+        page,
+        release: async () => {
+          if (released) return;
+          released = true;
+          await this.release(key, domain, leasedContext, page);
+        },
+      };
+    } catch (error) {
+      if (context) {
+        await context.close().catch(() => undefined);
+      }
+      this.releaseSlot(domain);
+      throw error;
+    }
+  }
+
+  /**
+   * Estado actual del pool (para monitoreo)
+   */
+  getMetrics(): BrowserPoolMetrics {
+    return {
+      active: this.active,
+      idle: this.idle.length,
+      queued: this.queue.length,
+      activeByDomain: Object.fromEntries(this.activeByDomain),
+      created: this.stats.created,
+      reused: this.stats.reused,
+      acquired: this.stats.acquired,
+      maxQueued: this.stats.maxQueued,
+      avgWaitMs: this.stats.acquired > 0 ? Math.round(this.stats.totalWaitMs / this.stats.acquired) : 0,
+      limits: { ...this.options },
+    };
+  }
+
+  /**
+   * Cierra los contextos inactivos y el browser
+   */
+  async close(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+
+    const idle = this.idle.splice(0);
+    await Promise.all(idle.map(({ context }) => context.close().catch(() => undefined)));
+
+    if (this.browser) {
+      this.logger.debug('Cerrando browser...');
+      const browser = this.browser;
+      this.browser = null;
+      await browser.close();
+      this.logger.debug('Browser cerrado');
+    }
+  }
+
+  private async launch(): Promise<Browser> {
+    this.logger.debug('Iniciando Playwright browser...');
+
+    // En producción Docker, usar Chromium del sistema
+    const executablePath = process.env.PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH ||
+                         (process.env.NODE_ENV === 'production' ? '/usr/bin/chromium-browser' : undefined);
+
+    const launchOptions: LaunchOptions = {
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+    };
+
+    if (executablePath) {
+      launchOptions.executablePath = executablePath;
+      this.logger.debug(`Usando Chromium del sistema: ${executablePath}`);
+    }
+
+    const browser = await chromium.launch(launchOptions);
+    browser.on('disconnected', () => {
+      if (this.browser === browser) {
+        this.logger.warn('Browser desconectado, se lanzará uno nuevo en el próximo préstamo');
+        this.browser = null;
+        this.idle = [];
+      }
+    });
+
+    this.browser = browser;
+    this.logger.debug('Browser iniciado');
+    return browser;
+  }
+
+  private canRun(domain: string, limit: number): boolean {
+    return this.active < this.options.maxContexts && (this.activeByDomain.get(domain) || 0) < limit;
+  }
+
+  private occupySlot(domain: string): void {
+    this.active++;
+    this.activeByDomain.set(domain, (this.activeByDomain.get(domain) || 0) + 1);
+  }
+
+  private waitForSlot(domain: string, limit: number): Promise<void> {
+    if (this.queue.length === 0 && this.canRun(domain, limit)) {
+      this.occupySlot(domain);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>(resolve => {
+      this.queue.push({ domain, limit, resolve });
+      this.stats.maxQueued = Math.max(this.stats.maxQueued, this.queue.length);
+      this.logger.debug(`En cola: ${domain} (${this.queue.length} esperando)`);
+
+      // Puede haber lugar si quienes esperan antes están bloqueados por su dominio
+      this.drainQueue();
+    });
+  }
+
+  private releaseSlot(domain: string): void {
+    this.active = Math.max(0, this.active - 1);
+    const domainActive = (this.activeByDomain.get(domain) || 1) - 1;
+    if (domainActive > 0) {
+      this.activeByDomain.set(domain, domainActive);
+    } else {
+      this.activeByDomain.delete(domain);
+    }
+
+    this.drainQueue();
+  }
+
+  /**
+   * Atiende la cola en orden, saltando a quienes esperan por un dominio que sigue lleno
+   */
+  private drainQueue(): void {
+    for (let i = 0; i < this.queue.length && this.active < this.options.maxContexts; ) {
+      const waiter = this.queue[i];
+      if (this.canRun(waiter.domain, waiter.limit)) {
+        this.queue.splice(i, 1);
+        this.occupySlot(waiter.domain);
+        waiter.resolve();
+      } else {
+        i++;
+      }
+    }
+  }
+
+  private takeIdle(key: string): BrowserContext | undefined {
+    const index = this.idle.findIndex(entry => entry.key === key);
+    if (index < 0) return undefined;
+    return this.idle.splice(index, 1)[0].context;
+  }
+
+  private async release(key: string, domain: string, context: BrowserContext, page: Page): Promise<void> {
+    try {
+      await page.close();
+
+      if (this.browser && this.browser.isConnected() && this.idle.length < this.options.maxIdle) {
+        this.idle.push({ key, context, releasedAt: Date.now() });
+        this.scheduleCleanup();
+      } else {
+        await context.close();
+      }
+    } catch (error) {
+      this.logger.debug('Error liberando contexto', error);
+      await context.close().catch(() => undefined);
+    } finally {
+      this.releaseSlot(domain);
+    }
+  }
+
+  /**
+   * Cierra periódicamente los contextos inactivos vencidos
+   */
+  private scheduleCleanup(): void {
+    if (this.cleanupTimer) return;
+
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      const expired = this.idle.filter(entry => now - entry.releasedAt > this.options.idleTimeoutMs);
+      this.idle = this.idle.filter(entry => !expired.includes(entry));
+      expired.forEach(({ context }) => context.close().catch(() => undefined));
+
+      if (this.idle.length === 0 && this.cleanupTimer) {
+        clearInterval(this.cleanupTimer);
+        this.cleanupTimer = null;
+      }
+    }, Math.min(this.options.idleTimeoutMs, 10000));
+
+    // No mantener vivo el proceso solo por este timer
+    this.cleanupTimer.unref();
+  }
+}
+
+// Singleton instance
+let instance: BrowserPoolService | null = null;
+
+export const getBrowserPoolService = (): BrowserPoolService => {
+  if (!instance) {
+    instance = new BrowserPoolService();
+  }
+  return instance;
+};
@@ -1,6 +1,16 @@
-import { PlaywrightService } from './playwright.service';
+import { PlaywrightService, getPlaywrightService, toContextSettings } from './playwright.service';
 import { StoreConfigService } from './store-config.service';
 import { getGeminiService } from './gemini.service';
+import { getSelectorExtractorService } from './selector-extractor.service';
+import { getStructuredDataService, StructuredProduct } from './structured-data.service';
+import { getHttpFetchService } from './http-fetch.service';
+import { getPolitenessService } from './politeness.service';
+import { getProxyService } from './proxy.service';
+import { toSelectorAlternatives } from '../utils/selector-alternatives';
+import { applyTransforms } from '../utils/field-transforms';
+import { parsePrice } from '../utils/price-parser';
+import { normalizeAvailability } from '../utils/availability';
+import { AvailabilityStatus, StoreConfig } from '../types/store-config.types';
 import * as cheerio from 'cheerio';
 import OpenAI from 'openai';
 
@@ -20,6 +30,10 @@ export interface DetailedProduct {
   description?: string | string[];
   brand?: string;
   availability?: string;
+  availability_status?: AvailabilityStatus;
+  availability_quantity?: number;
+  sku?: string;
+  gtin?: string;
   specifications?: Record<string, any>;
   images?: string[];
 }
@@ -51,13 +65,45 @@ export interface ComparisonResult {
   analysis: ComparisonAnalysis;
 }
 
+// Selectores comunes cuando la tienda no define los suyos
+const DEFAULT_DESCRIPTION_SELECTORS = [
+  '.product-description',
+  '.description',
+  '[itemprop="description"]',
+  '.product-info',
+  '#description',
+  '.product.attribute.description',
+  '.product-details',
+  '.overview'
+];
+
+const DEFAULT_SPECIFICATIONS_SELECTORS = [
+  '.specifications table',
+  '.product-specs',
+  '.technical-specs',
+  '.additional-attributes',
+  '[class*="spec"]'
+];
+
+const DEFAULT_IMAGE_SELECTORS = [
+  '.product-images img',
+  '.product-gallery img',
+  '[class*="product-image"] img',
+  '.gallery-placeholder img'
+];
+
 export class ComparisonService {
   private playwrightService: PlaywrightService;
   private openai: OpenAI | null = null;
   private storeConfigService: StoreConfigService;
+  private extractorService = getSelectorExtractorService();
+  private structuredDataService = getStructuredDataService();
+  private httpFetchService = getHttpFetchService();
+  private politenessService = getPolitenessService();
+  private proxyService = getProxyService();
 
   constructor() {
-    this.playwrightService = new PlaywrightService();
+    this.playwrightService = getPlaywrightService();  // Comparte el pool de navegador
     this.storeConfigService = new StoreConfigService();
   }
 
@@ -136,6 +182,7 @@ export class ComparisonService {
             description: enrichResult.details.description,
             brand: specifications.marca || specifications.Marca || undefined,
             availability: 'Consultar disponibilidad',
+            availability_status: 'unknown',
             specifications,
             images: [product.image]
           };
@@ -150,20 +197,31 @@ export class ComparisonService {
           description: 'Producto de infesa.com - información básica',
           brand: undefined,
           availability: 'Consultar disponibilidad',
+          availability_status: 'unknown',
           specifications: {},
           images: product.image ? [product.image] : []
         };
       }
 
-      // FLUJO NORMAL: Scrapear página de detalle
-      const scraped = await this.playwrightService.scrapeUrl(product.url, {
-        waitTime: storeConfig?.scraping?.wait_time || 3000,
-        waitForSelectors: storeConfig?.scraping?.wait_for_selectors_detail || storeConfig?.scraping?.wait_for_selectors
+      // FLUJO NORMAL: Scrapear página de detalle (sin navegador si la tienda usa engine http)
+      await this.politenessService.beforeRequest(product.url, storeConfig?.scraping, storeConfig?.domain);
+      const scraped = await this.proxyService.run(storeConfig?.domain || new URL(product.url).hostname, storeConfig?.scraping?.proxy, proxy => {
+        const contextSettings = { ...toContextSettings(storeConfig?.scraping), proxy };
+        return storeConfig?.scraping?.engine === 'http'
+          ? this.httpFetchService.fetchPage(product.url, contextSettings)
+          : this.playwrightService.scrapeUrl(product.url, {
+            waitTime: storeConfig?.scraping?.wait_time || 3000,
+            waitForSelectors: storeConfig?.scraping?.wait_for_selectors_detail || storeConfig?.scraping?.wait_for_selectors,
+            context: contextSettings
+          });
       });
 
       // Extraer información usando cheerio
       const $ = cheerio.load(scraped.html);
 
+      // Título, precio y SKU de la página de detalle
+      const overview = this.extractOverview($, storeConfig);
+
       // Extraer descripción
       const description = this.extractDescription($, storeConfig);
 
@@ -179,18 +237,34 @@ export class ComparisonService {
       // Extraer disponibilidad
       const availability = this.extractAvailability($, storeConfig);
 
-      return {
-        name: product.product_name,
+      const detailed: DetailedProduct = {
+        name: overview.name || product.product_name,
         store: product.storeName,
-        price: product.price,
+        price: overview.price ?? product.price,
         url: product.url,
         description,
         brand,
         availability,
+        sku: overview.sku,
         specifications,
         images
       };
 
+      // Completar con JSON-LD / microdata / OpenGraph
+      const mode = storeConfig?.structured_data?.detail || 'fallback';
+      const structured = mode !== 'off' ? this.structuredDataService.extractProduct(scraped.html) : null;
+      if (structured) {
+        this.mergeStructuredData(detailed, structured, mode === 'prefer');
+      }
+
+      if (!detailed.description) {
+        detailed.description = 'Descripción no disponible';
+      }
+
+      Object.assign(detailed, normalizeAvailability(detailed.availability, storeConfig?.availability));
+
+      return detailed;
+
     } catch (error) {
       console.error(`❌ Error scrapeando ${product.url}:`, error);
       
@@ -203,6 +277,7 @@ export class ComparisonService {
         description: 'No se pudo obtener descripción',
         brand: undefined,
         availability: undefined,
+        availability_status: 'unknown',
         specifications: {},
         images: []
       };
@@ -210,63 +285,87 @@ export class ComparisonService {
   }
 
   /**
-   * Extrae la descripción del producto
+   * Extrae título, precio y SKU con product_detail.title / price / sku
+   * Lo que se encuentre reemplaza a los datos del listado (pueden venir truncados o desactualizados)
    */
-  private extractDescription($: cheerio.CheerioAPI, storeConfig: any): string {
-    // Obtener selectores desde config (pueden estar separados por coma)
-    const configSelectors = storeConfig?.product_detail?.description;
-    
-    let selectors: string[] = [];
-    if (configSelectors) {
-      // Separar por coma si hay múltiples
-      selectors = configSelectors.split(',').map((s: string) => s.trim());
-    } else {
-      // Fallback a selectores comunes
-      selectors = [
-        '.product-description',
-        '.description',
-        '[itemprop="description"]',
-        '.product-info',
-        '#description',
-        '.product.attribute.description',
-        '.product-details',
-        '.overview'
-      ];
+  private extractOverview($: cheerio.CheerioAPI, storeConfig: StoreConfig | null): { name?: string; price?: number; sku?: string } {
+    if (!storeConfig?.product_detail) {
+      return {};
     }
 
-    for (const selector of selectors) {
-      const text = $(selector).first().text().trim();
+    const detail = storeConfig.product_detail;
+    const name = this.extractorService.extractDetailField($, detail.title, detail.title_attribute || 'text', detail.title_transforms);
+    const sku = this.extractorService.extractDetailField(
+      $,
+      detail.sku,
+      detail.sku_attribute || 'text',
+      this.extractorService.withRegex(detail.sku_regex, detail.sku_transforms)
+    );
+
+    const rawPrice = this.extractorService.extractDetailField($, detail.price, detail.price_attribute, detail.price_transforms);
+    const price = parsePrice(rawPrice, storeConfig.price_format);
+    if (!price.ok && price.reason !== 'empty') {
+      console.warn(`⚠️  Precio de detalle no interpretable (${price.reason}): "${rawPrice}"`);
+    }
+
+    return {
+      name: name || undefined,
+      price: price.ok ? price.price.value : undefined,
+      sku: sku || undefined,
+    };
+  }
+
+  /**
+   * Extrae la descripción del producto
+   */
+  private extractDescription($: cheerio.CheerioAPI, storeConfig: StoreConfig | null): string | undefined {
+    // Cadena de alternativas desde config (en orden de prioridad)
+    const detail = storeConfig?.product_detail;
+    const configured = toSelectorAlternatives(detail?.description, detail?.description_attribute || 'text');
+    const alternatives = configured.length > 0 ? configured : toSelectorAlternatives(DEFAULT_DESCRIPTION_SELECTORS);
+
+    for (const { selector, attribute, transforms } of alternatives) {
+      const element = $(selector).first();
+      const raw = attribute === 'text' ? element.text().trim() : element.attr(attribute)?.trim() || '';
+      const text = applyTransforms(applyTransforms(raw, transforms), detail?.description_transforms);
       if (text && text.length > 20) {
         return text.substring(0, 1000); // Limitar a 1000 caracteres
       }
     }
 
-    return 'Descripción no disponible';
+    return undefined;
+  }
+
+  /**
+   * Combina los datos estructurados de la página con lo extraído por selectores
+   * Por defecto solo completa campos vacíos; con `prefer` los sobrescribe
+   */
+  private mergeStructuredData(detailed: DetailedProduct, structured: StructuredProduct, prefer: boolean): void {
+    const pick = <T>(current: T | undefined, value: T | undefined): T | undefined =>
+      prefer ? value || current : current || value;
+
+    detailed.description = pick(detailed.description, structured.description?.substring(0, 1000));
+    detailed.brand = pick(detailed.brand, structured.brand);
+    detailed.availability = pick(detailed.availability, structured.availability);
+    detailed.sku = pick(detailed.sku, structured.sku);
+    detailed.gtin = pick(detailed.gtin, structured.gtin);
+
+    if (structured.images.length > 0 && (prefer || !detailed.images || detailed.images.length === 0)) {
+      detailed.images = structured.images.slice(0, 5);
+    }
   }
 
   /**
    * Extrae especificaciones técnicas
    */
-  private extractSpecifications($: cheerio.CheerioAPI, storeConfig: any): Record<string, any> {
+  private extractSpecifications($: cheerio.CheerioAPI, storeConfig: StoreConfig | null): Record<string, any> {
     const specs: Record<string, any> = {};
     
-    // Obtener selectores desde config (pueden estar separados por coma)
-    const configSelectors = storeConfig?.product_detail?.specifications;
-    
-    let selectors: string[] = [];
-    if (configSelectors) {
-      selectors = configSelectors.split(',').map((s: string) => s.trim());
-    } else {
-      selectors = [
-        '.specifications table',
-        '.product-specs',
-        '.technical-specs',
-        '.additional-attributes',
-        '[class*="spec"]'
-      ];
-    }
+    // Se combinan las especificaciones de todas las alternativas configuradas
+    const configured = toSelectorAlternatives(storeConfig?.product_detail?.specifications);
+    const alternatives = configured.length > 0 ? configured : toSelectorAlternatives(DEFAULT_SPECIFICATIONS_SELECTORS);
 
-    for (const selector of selectors) {
+    for (const { selector } of alternatives) {
       const element = $(selector).first();
       
       if (element.length > 0) {
@@ -299,33 +398,22 @@ export class ComparisonService {
   /**
    * Extrae URLs de imágenes
    */
-  private extractImages($: cheerio.CheerioAPI, storeConfig: any): string[] {
+  private extractImages($: cheerio.CheerioAPI, storeConfig: StoreConfig | null): string[] {
     const images: string[] = [];
     
-    let selectors: string[] = [];
-    
-    if (storeConfig?.product_detail?.images?.main) {
-      // Usar selectores de la config
-      const mainSelectors = storeConfig.product_detail.images.main.split(',').map((s: string) => s.trim());
-      selectors.push(...mainSelectors);
-      
-      if (storeConfig.product_detail.images.thumbnails) {
-        const thumbSelectors = storeConfig.product_detail.images.thumbnails.split(',').map((s: string) => s.trim());
-        selectors.push(...thumbSelectors);
-      }
+    const imagesConfig = storeConfig?.product_detail?.images;
+    let alternatives = toSelectorAlternatives(imagesConfig?.main, imagesConfig?.main_attribute || 'src');
+
+    if (alternatives.length > 0) {
+      alternatives.push(...toSelectorAlternatives(imagesConfig?.thumbnails, imagesConfig?.thumbnails_attribute || 'src'));
     } else {
       // Fallback a selectores comunes
-      selectors = [
-        '.product-images img',
-        '.product-gallery img',
-        '[class*="product-image"] img',
-        '.gallery-placeholder img'
-      ];
+      alternatives = toSelectorAlternatives(DEFAULT_IMAGE_SELECTORS, 'src');
     }
 
-    for (const selector of selectors) {
+    for (const { selector, attribute } of alternatives) {
       $(selector).each((_, img) => {
-        const src = $(img).attr('src') || $(img).attr('data-src');
+        const src = $(img).attr(attribute) || $(img).attr('src') || $(img).attr('data-src');
         if (src && !images.includes(src)) {
           images.push(src);
         }
@@ -340,74 +428,28 @@ export class ComparisonService {
   /**
    * Extrae la marca del producto
    */
-  private extractBrand($: cheerio.CheerioAPI, storeConfig: any): string | undefined {
-    const brandConfig = storeConfig?.product_detail?.brand;
-    
-    if (!brandConfig) {
-      return undefined;
-    }
-
-    // Si es extracción por tabla
-    if (brandConfig.extraction_method === 'table_search') {
-      const searchLabel = brandConfig.search_label || 'Marca';
-      
-      // Buscar en todas las tablas
-      const tables = $('table');
-      for (let i = 0; i < tables.length; i++) {
-        const rows = $(tables[i]).find('tr');
-        
-        for (let j = 0; j < rows.length; j++) {
-          const cells = $(rows[j]).find('th, td');
-          if (cells.length >= 2) {
-            const label = $(cells[0]).text().trim();
-            if (label.toLowerCase().includes(searchLabel.toLowerCase())) {
-              return $(cells[1]).text().trim();
-            }
-          }
-        }
-      }
-    }
-    
-    // Si es extracción por regex
-    if (brandConfig.extraction_method === 'regex') {
-      const selector = brandConfig.selector;
-      const pattern = brandConfig.regex_pattern;
-      
-      const text = $(selector).text().trim();
-      if (text && pattern) {
-        const regex = new RegExp(pattern, 'i');
-        const match = text.match(regex);
-        if (match) {
-          return match[1] || match[0];
-        }
-      }
-    }
-    
-    // Fallback: selector directo
-    if (brandConfig.selector) {
-      return $(brandConfig.selector).text().trim() || undefined;
-    }
-    
-    return undefined;
+  private extractBrand($: cheerio.CheerioAPI, storeConfig: StoreConfig | null): string | undefined {
+    const detail = storeConfig?.product_detail;
+    return (detail && this.extractorService.extractDetailBrand($, detail)) || undefined;
   }
 
   /**
    * Extrae la disponibilidad del producto
    */
-  private extractAvailability($: cheerio.CheerioAPI, storeConfig: any): string | undefined {
-    const availabilitySelector = storeConfig?.product_detail?.availability;
+  private extractAvailability($: cheerio.CheerioAPI, storeConfig: StoreConfig | null): string | undefined {
+    const detail = storeConfig?.product_detail;
     
-    if (!availabilitySelector) {
+    if (!detail?.availability) {
       return undefined;
     }
 
-    // Si es una string simple de selector
-    if (typeof availabilitySelector === 'string') {
-      const text = $(availabilitySelector).text().trim();
-      return text || undefined;
-    }
-    
-    return undefined;
+    const text = this.extractorService.extractDetailField(
+      $,
+      detail.availability,
+      detail.availability_attribute || 'text',
+      detail.availability_transforms
+    );
+    return text || undefined;
   }
 
   /**
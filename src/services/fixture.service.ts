@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import * as cheerio from 'cheerio';
+import type { ScrapedContent, CapturedResponse } from './playwright.service';
+import { createContextLogger } from '../utils/logger';
+import { ScrapeError } from '../utils/scrape-errors';
+
+/**
+ * Modo de fixtures (env SCRAPE_FIXTURES_MODE)
+ * - off: siempre se usa la red (default)
+ * - record: se usa la red y se guarda cada página/JSON en el directorio de fixtures
+ * - replay: no se usa la red, todo se sirve desde los fixtures (error si falta alguno)
+ */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures';
+
+/**
+ * Metadatos guardados junto al HTML de cada página
+ */
+interface PageFixture {
+  url: string;            // URL solicitada
+  finalUrl: string;       // URL final (después de redirecciones)
+  title: string;
+  recordedAt: string;
+  responses?: CapturedResponse[];
+}
+
+interface JsonFixture {
+  url: string;
+  recordedAt: string;
+  body: unknown;
+}
+
+function readModeFromEnv(): FixtureMode {
+  const mode = (process.env.SCRAPE_FIXTURES_MODE || '').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+/**
+ * Grabación y reproducción de páginas para desarrollar y probar tiendas sin red
+ * Cada URL se guarda como <dir>/<dominio>/<ruta>__<hash>.html + .json (metadatos y JSON capturado)
+ */
+export class FixtureService {
+  private logger = createContextLogger('Fixtures');
+
+  constructor(
+    private mode: FixtureMode = readModeFromEnv(),
+    private directory: string = process.env.SCRAPE_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+  ) {}
+
+  getMode(): FixtureMode {
+    return this.mode;
+  }
+
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  /**
+   * Cambia el modo y/o el directorio en tiempo de ejecución (ej: tests)
+   */
+  configure(mode: FixtureMode, directory?: string): void {
+    this.mode = mode;
+    if (directory) {
+      this.directory = directory;
+    }
+  }
+
+  /**
+   * Guarda una página descargada (no interrumpe el scraping si falla)
+   */
+  async savePage(url: string, content: ScrapedContent): Promise<void> {
+    const base = this.getBasePath(url);
+    const metadata: PageFixture = {
+      url,
+      finalUrl: content.url,
+      title: content.title,
+      recordedAt: new Date().toISOString(),
+      ...(content.responses && { responses: content.responses }),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(base), { recursive: true });
+      await fs.writeFile(`${base}.html`, content.html, 'utf-8');
+      await fs.writeFile(`${base}.json`, JSON.stringify(metadata, null, 2), 'utf-8');
+      this.logger.debug(`Grabado: ${url} -> ${base}.html`);
+    } catch (error) {
+      this.logger.warn(`No se pudo grabar el fixture de ${url}:`, error);
+    }
+  }
+
+  /**
+   * Lee una página grabada con el mismo formato que PlaywrightService.scrapeUrl
+   */
+  async loadPage(url: string): Promise<ScrapedContent> {
+    const base = this.getBasePath(url);
+
+    let html: string;
+    let metadata: PageFixture;
+    try {
+      html = await fs.readFile(`${base}.html`, 'utf-8');
+      metadata = JSON.parse(await fs.readFile(`${base}.json`, 'utf-8'));
+    } catch {
+      throw new ScrapeError('unknown', `No hay fixture grabado para ${url} (${base}.html)`, { url });
+    }
+
+    this.logger.debug(`Reproduciendo: ${url}`);
+    const $ = cheerio.load(html);
+
+    return {
+      html,
+      text: $('body').text(),
+      url: metadata.finalUrl || url,
+      title: metadata.title ?? $('title').text().trim(),
+      ...(metadata.responses && { responses: metadata.responses }),
+    };
+  }
+
+  async saveJson(url: string, body: unknown): Promise<void> {
+    const base = this.getBasePath(url);
+    const fixture: JsonFixture = { url, recordedAt: new Date().toISOString(), body };
+
+    try {
+      await fs.mkdir(path.dirname(base), { recursive: true });
+      await fs.writeFile(`${base}.json`, JSON.stringify(fixture, null, 2), 'utf-8');
+    } catch (error) {
+      this.logger.warn(`No se pudo grabar el fixture de ${url}:`, error);
+    }
+  }
+
+  async loadJson(url: string): Promise<unknown> {
+    const base = this.getBasePath(url);
+
+    try {
+      const fixture: JsonFixture = JSON.parse(await fs.readFile(`${base}.json`, 'utf-8'));
+      return fixture.body;
+    } catch {
+      throw new ScrapeError('unknown', `No hay fixture grabado para ${url} (${base}.json)`, { url });
+    }
+  }
+
+  /**
+   * Ruta base (sin extensión) del fixture de una URL
+   * La ruta legible ayuda a ubicar el archivo; el hash de la URL completa evita colisiones
+   */
+  getBasePath(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+
+    const slug = `${parsed.pathname}${parsed.search}`
+      .replace(/[^a-zA-Z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'index';
+    const hash = createHash('sha1').update(parsed.toString()).digest('hex').slice(0, 10);
+
+    return path.resolve(this.directory, parsed.hostname, `${slug}__${hash}`);
+  }
+}
+
+// Singleton instance
+let instance: FixtureService | null = null;
+
+export const getFixtureService = (): FixtureService => {
+  if (!instance) {
+    instance = new FixtureService();
+  }
+  return instance;
+};
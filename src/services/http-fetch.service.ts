@@ -0,0 +1,252 @@
+import * as cheerio from 'cheerio';
+import { fetch, Dispatcher, ProxyAgent, Response } from 'undici';
+import { ScrapedContent, BrowserContextSettings, DEFAULT_USER_AGENT, getMobileDevice } from './playwright.service';
+import { createContextLogger } from '../utils/logger';
+import { ScrapeError, failureClassForStatus, toScrapeError } from '../utils/scrape-errors';
+import { ProxySettings } from './proxy.service';
+import { getFixtureService } from './fixture.service';
+
+const MAX_REDIRECTS = 10;
+const HTML_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+
+/**
+ * Mismas opciones que el contexto del navegador (viewport y timezone no aplican)
+ */
+export interface HttpFetchOptions extends BrowserContextSettings {
+  timeout?: number;   // ms (default: 30000)
+}
+
+export interface HttpTextResponse {
+  status: number;
+  text: string;       // Vacío si la respuesta no fue 2xx
+}
+
+/**
+ * Cliente HTTP liviano para tiendas renderizadas en servidor (sin JavaScript)
+ * - Sigue redirecciones manualmente para conservar las cookies de cada salto
+ * - Mantiene las cookies por dominio entre páginas (sesión de paginación)
+ * - Decodifica el HTML según el charset del header o del <meta>
+ * - Usa el proxy del request si lo hay (solo proxies HTTP/HTTPS)
+ */
+export class HttpFetchService {
+  private logger = createContextLogger('');
+  private cookieJar = new Map<string, Map<string, string>>();
+  private proxyAgents = new Map<string, ProxyAgent>();
+  private fixtures = getFixtureService();
+
+  /**
+   * Establece el contexto del logger (nombre de tienda)
+   */
+  setContext(context: string): void {
+    this.logger = createContextLogger(context);
+  }
+
+  /**
+   * Descarga una URL y retorna el mismo formato que PlaywrightService.scrapeUrl
+   */
+  async fetchPage(url: string, options: HttpFetchOptions = {}): Promise<ScrapedContent> {
+    // Mismo modo de fixtures que PlaywrightService (SCRAPE_FIXTURES_MODE)
+    if (this.fixtures.isReplaying()) {
+      this.logger.scraping(`Reproduciendo fixture (HTTP): ${url}`);
+      return this.fixtures.loadPage(url);
+    }
+
+    this.logger.scraping(`Iniciando (HTTP): ${url}`);
+
+    try {
+      const { response, finalUrl } = await this.request(url, options, HTML_ACCEPT);
+
+      if (!response.ok) {
+        throw new ScrapeError(failureClassForStatus(response.status), `Failed to fetch: HTTP ${response.status}`, {
+          status: response.status,
+          url: finalUrl,
+          body: await response.text().catch(() => undefined),
+        });
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      const html = this.decode(buffer, response.headers.get('content-type'));
+      const $ = cheerio.load(html);
+
+      this.logger.success(`Completado: ${$('title').text().trim()} (${(html.length / 1024).toFixed(2)} KB)`);
+
+      const content: ScrapedContent = {
+        html,
+        text: $('body').text(),
+        url: finalUrl,
+        title: $('title').text().trim(),
+      };
+
+      if (this.fixtures.isRecording()) {
+        await this.fixtures.savePage(url, content);
+      }
+
+      return content;
+    } catch (error) {
+      const scrapeError = toScrapeError(error, 'Failed to fetch');
+      this.logger.error(`Error en descarga HTTP (${scrapeError.failureClass}):`, error);
+      throw scrapeError;
+    }
+  }
+
+  /**
+   * Descarga un recurso de texto (ej: robots.txt) con los mismos headers, cookies y proxy
+   * No lanza error por el código HTTP: quien llama decide qué hacer con cada status
+   */
+  async fetchText(url: string, options: HttpFetchOptions = {}): Promise<HttpTextResponse> {
+    try {
+      const { response } = await this.request(url, options, 'text/plain,*/*;q=0.8');
+      if (!response.ok) {
+        await response.body?.cancel();  // Libera la conexión sin leer el cuerpo
+        return { status: response.status, text: '' };
+      }
+      return { status: response.status, text: await response.text() };
+    } catch (error) {
+      throw toScrapeError(error, 'Failed to fetch');
+    }
+  }
+
+  /**
+   * Hace el request siguiendo las redirecciones manualmente (para guardar las cookies de cada salto)
+   */
+  private async request(
+    url: string,
+    options: HttpFetchOptions,
+    accept: string
+  ): Promise<{ response: Response; finalUrl: string }> {
+    let currentUrl = url;
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const response = await fetch(currentUrl, {
+        dispatcher: this.getDispatcher(currentUrl, options.proxy),
+        redirect: 'manual',
+        signal: AbortSignal.timeout(options.timeout || 30000),
+        headers: {
+          'User-Agent': getMobileDevice(options)?.userAgent || options.userAgent || DEFAULT_USER_AGENT,
+          'Accept': accept,
+          'Accept-Language': options.locale ? `${options.locale},es;q=0.9,en;q=0.8` : 'es-CR,es;q=0.9,en;q=0.8',
+          ...options.headers,
+          ...this.cookieHeader(currentUrl, options.cookies),
+        },
+      });
+
+      this.storeCookies(currentUrl, response.headers.getSetCookie());
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        currentUrl = new URL(location, currentUrl).toString();
+        this.logger.debug(`Redirección a ${currentUrl}`);
+        continue;
+      }
+
+      return { response, finalUrl: currentUrl };
+    }
+
+    throw new ScrapeError('network', `Failed to fetch: demasiadas redirecciones (${MAX_REDIRECTS})`, { url });
+  }
+
+  /**
+   * Agente del proxy (uno por proxy, reutiliza conexiones); undefined = conexión directa
+   */
+  private getDispatcher(url: string, proxy?: ProxySettings | null): Dispatcher | undefined {
+    if (!proxy || isBypassed(url, proxy.bypass)) {
+      return undefined;
+    }
+
+    // ProxyAgent de undici solo habla HTTP/HTTPS (los socks5:// son solo para engine browser)
+    // No cuenta como fallo del proxy: el proxy puede estar sano para el navegador
+    const protocol = new URL(proxy.server).protocol;
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new ScrapeError('unknown', `engine http solo admite proxies HTTP/HTTPS (recibido ${protocol}//)`);
+    }
+
+    const key = `${proxy.server}|${proxy.username || ''}`;
+    let agent = this.proxyAgents.get(key);
+    if (!agent) {
+      const credentials = proxy.username
+        ? Buffer.from(`${proxy.username}:${proxy.password || ''}`).toString('base64')
+        : undefined;
+      agent = new ProxyAgent({ uri: proxy.server, ...(credentials && { token: `Basic ${credentials}` }) });
+      this.proxyAgents.set(key, agent);
+    }
+    return agent;
+  }
+
+  /**
+   * Decodifica el cuerpo con el charset declarado (header o <meta>), UTF-8 por defecto
+   */
+  private decode(buffer: Buffer, contentType: string | null): string {
+    let charset = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+
+    if (!charset) {
+      // Buscar <meta charset> en los primeros bytes (ASCII-compatible)
+      const head = buffer.subarray(0, 2048).toString('latin1');
+      charset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+    }
+
+    try {
+      return new TextDecoder(charset || 'utf-8').decode(buffer);
+    } catch {
+      this.logger.debug(`Charset desconocido: ${charset}, usando UTF-8`);
+      return new TextDecoder('utf-8').decode(buffer);
+    }
+  }
+
+  /**
+   * Combina las cookies configuradas con las recibidas del sitio (las del sitio tienen prioridad)
+   */
+  private cookieHeader(url: string, configured: Record<string, string> = {}): Record<string, string> {
+    const received = this.cookieJar.get(new URL(url).hostname);
+    const cookies = { ...configured, ...(received ? Object.fromEntries(received) : {}) };
+
+    if (Object.keys(cookies).length === 0) {
+      return {};
+    }
+
+    return {
+      Cookie: Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; '),
+    };
+  }
+
+  private storeCookies(url: string, setCookies: string[]): void {
+    if (setCookies.length === 0) return;
+
+    const hostname = new URL(url).hostname;
+    const cookies = this.cookieJar.get(hostname) || new Map<string, string>();
+
+    for (const setCookie of setCookies) {
+      const [pair] = setCookie.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+      }
+    }
+
+    this.cookieJar.set(hostname, cookies);
+  }
+}
+
+/**
+ * Dominios excluidos del proxy (mismo formato que Playwright: ".dominio.com, host")
+ */
+function isBypassed(url: string, bypass?: string): boolean {
+  if (!bypass) return false;
+
+  const hostname = new URL(url).hostname;
+  return bypass.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean).some(entry =>
+    entry.startsWith('.')
+      ? hostname.endsWith(entry) || hostname === entry.slice(1)
+      : hostname === entry
+  );
+}
+
+// Singleton instance
+let instance: HttpFetchService | null = null;
+
+export const getHttpFetchService = (): HttpFetchService => {
+  if (!instance) {
+    instance = new HttpFetchService();
+  }
+  return instance;
+};
@@ -1,7 +1,21 @@
 import { getStoreConfigService } from './store-config.service';
-import { getScraperService } from './scraper.service';
+import { getScraperService, ScrapeAttempt, ScraperResult } from './scraper.service';
 import { getLLMService } from './llm.service';
 import { SimpleProduct } from '../types/product.types';
+import { PriceParseFailure } from './selector-extractor.service';
+import { AvailabilityStatus, SearchType, TaxonomyTerm } from '../types/store-config.types';
+import { ScrapeFailureClass } from '../utils/scrape-errors';
+import { selectStores, StoreSelection, StoreSelectionResult } from '../utils/store-selection';
+import { SearchParamValues } from '../utils/search-url';
+
+/**
+ * Estado de la búsqueda en una tienda
+ * - ok: se obtuvieron productos
+ * - empty: la tienda respondió pero no tiene resultados
+ * - blocked: la tienda respondió con una página de bloqueo (anti-bot, captcha, acceso denegado)
+ * - failed: error de red, timeout, HTTP, etc.
+ */
+export type StoreSearchStatus = 'ok' | 'empty' | 'blocked' | 'failed';
 
 export interface StoreSearchResult {
   store: string;
@@ -9,15 +23,24 @@ export interface StoreSearchResult {
   products: SimpleProduct[];
   count: number;
   success: boolean;
+  status: StoreSearchStatus;
   error?: string;
   searchUrl: string;
   duration: number;
+  priceParseFailures?: PriceParseFailure[];  // Precios que no se pudieron interpretar
+  failureClass?: ScrapeFailureClass;         // Por qué falló (solo si success es false)
+  blockReason?: string;                      // Marcador de la página de bloqueo (status: blocked)
+  attempts?: ScrapeAttempt[];                // Historial de intentos según scraping.retry
+  ignoredParams?: string[];                  // Parámetros de búsqueda que la tienda no soporta
 }
 
 export interface MultiStoreSearchResult {
   search: string;
+  term?: TaxonomyTerm;                       // Categoría o marca listada (type: category | brand)
   totalStores: number;
   successfulStores: number;
+  blockedStores: number;                     // Tiendas que respondieron con una página de bloqueo
+  skippedStores?: StoreSelectionResult['skipped']; // Tiendas que no participaron y por qué (fase de scraping)
   totalProducts: number;
   stores: StoreSearchResult[];
   duration: number;
@@ -26,10 +49,14 @@ export interface MultiStoreSearchResult {
 }
 
 export interface SearchOptions {
-  type: 'open_search';  // Futuro: 'category', 'brand', etc.
+  type: SearchType;     // open_search: texto libre; category / brand: listado de un término de la taxonomía
+  term?: TaxonomyTerm;  // Categoría o marca a listar (requerido si type no es open_search)
   topN?: number;        // Si se especifica, aplica filtrado con GPT-4
   filter?: string;      // Filtro en lenguaje natural opcional
   maxPages?: number;    // Limitar número de páginas a scrapear (sobrescribe config)
+  availability?: AvailabilityStatus[];  // Solo productos con estos estados de disponibilidad
+  stores?: StoreSelection;              // Subconjunto de tiendas (por dominio, tag o región)
+  params?: SearchParamValues;           // Parámetros del url_template (page, sort, category, min_price, ...)
 }
 
 /**
@@ -54,9 +81,9 @@ export class MultiStoreSearchService {
     console.log(`🔍 BÚSQUEDA MULTI-TIENDA: "${query}"`);
     console.log(`${'='.repeat(70)}\n`);
 
-    // 1. Obtener todas las tiendas disponibles
-    const availableStores = this.configService.listAvailableStores();
-    console.log(`📦 Tiendas disponibles: ${availableStores.length}`);
+    // 1. Obtener las tiendas disponibles que participan en la búsqueda
+    const { selected: availableStores, skipped: skippedStores } = this.selectStores(options.stores);
+    console.log(`📦 Tiendas disponibles: ${availableStores.length}${skippedStores.length > 0 ? ` (omitidas: ${skippedStores.length})` : ''}`);
     availableStores.forEach(domain => {
       const config = this.configService.getConfig(domain);
       console.log(`   - ${config?.name} (${domain})`);
@@ -64,27 +91,14 @@ export class MultiStoreSearchService {
     console.log();
 
     // 2. Generar URLs de búsqueda para cada tienda
-    const searchUrls: Array<{ domain: string; url: string; name: string }> = [];
-    
-    for (const domain of availableStores) {
-      const searchUrl = this.configService.buildSearchUrl(domain, query);
-      const config = this.configService.getConfig(domain);
-      
-      if (searchUrl && config) {
-        searchUrls.push({
-          domain,
-          url: searchUrl,
-          name: config.name
-        });
-        console.log(`🔗 ${config.name}: ${searchUrl}`);
-      }
-    }
+    const searchUrls = this.buildSearchUrls(availableStores, query, options, skippedStores);
+    searchUrls.forEach(({ name, url }) => console.log(`🔗 ${name}: ${url}`));
     console.log();
 
     // 3. Scrapear todas las tiendas en paralelo
     console.log(`⚡ Scraping ${searchUrls.length} tiendas en paralelo...\n`);
     
-    const scrapePromises = searchUrls.map(async ({ domain, url, name }) => {
+    const scrapePromises = searchUrls.map(async ({ domain, url, name, ignoredParams }) => {
       const storeStartTime = Date.now();
       
       try {
@@ -93,16 +107,27 @@ export class MultiStoreSearchService {
         const result = await this.scraperService.scrapeProducts(url, scrapeOptions);
         const duration = Date.now() - storeStartTime;
         
-        console.log(`✅ ${name}: ${result.products.length} productos (${(duration / 1000).toFixed(2)}s)`);
+        if (result.success) {
+          console.log(`✅ ${name}: ${result.products.length} productos (${(duration / 1000).toFixed(2)}s)`);
+        } else {
+          console.error(`❌ ${name}: ${result.failureClass} - ${result.error} (${result.attempts?.length || 1} intento(s))`);
+        }
         
         return {
           store: name,
           domain,
           products: result.products,
           count: result.products.length,
-          success: true,
+          success: result.success,
+          status: getStoreStatus(result),
+          error: result.error,
           searchUrl: url,
-          duration
+          duration,
+          priceParseFailures: result.priceParseFailures,
+          failureClass: result.failureClass,
+          blockReason: result.blockReason,
+          attempts: result.attempts,
+          ignoredParams
         } as StoreSearchResult;
       } catch (error) {
         const duration = Date.now() - storeStartTime;
@@ -114,23 +139,29 @@ export class MultiStoreSearchService {
           products: [],
           count: 0,
           success: false,
+          status: 'failed',
           error: error instanceof Error ? error.message : 'Unknown error',
           searchUrl: url,
-          duration
+          duration,
+          ignoredParams
         } as StoreSearchResult;
       }
     });
 
-    const storeResults = await Promise.all(scrapePromises);
+    const storeResults = this.filterByAvailability(await Promise.all(scrapePromises), options.availability);
 
     // 4. Calcular totales
     const successfulStores = storeResults.filter(r => r.success).length;
+    const blockedStores = storeResults.filter(r => r.status === 'blocked').length;
     const totalProducts = storeResults.reduce((sum, r) => sum + r.count, 0);
     const duration = Date.now() - startTime;
 
     console.log(`\n${'='.repeat(70)}`);
     console.log(`✅ Búsqueda completada en ${(duration / 1000).toFixed(2)}s`);
     console.log(`📊 Tiendas exitosas: ${successfulStores}/${storeResults.length}`);
+    if (blockedStores > 0) {
+      console.log(`🛑 Tiendas bloqueadas: ${blockedStores}`);
+    }
     console.log(`📦 Total productos: ${totalProducts}`);
     console.log(`${'='.repeat(70)}\n`);
 
@@ -215,8 +246,11 @@ export class MultiStoreSearchService {
 
     return {
       search: query,
+      term: options.term,
       totalStores: finalResults.length,
       successfulStores,
+      blockedStores,
+      skippedStores,
       totalProducts: finalResults.reduce((sum, r) => sum + r.count, 0),
       stores: finalResults,
       duration,
@@ -230,7 +264,7 @@ export class MultiStoreSearchService {
    */
   async scrapeAllStores(
     query: string,
-    options: { maxPages?: number }
+    options: Pick<SearchOptions, 'maxPages' | 'availability' | 'stores' | 'params' | 'term'> & { type?: SearchType }
   ): Promise<MultiStoreSearchResult> {
     const startTime = Date.now();
     
@@ -238,26 +272,17 @@ export class MultiStoreSearchService {
     console.log(`🔍 FASE 1: SCRAPING - "${query}"`);
     console.log(`${'='.repeat(70)}\n`);
 
-    // 1. Obtener todas las tiendas disponibles
-    const availableStores = this.configService.listAvailableStores();
-    console.log(`📦 Tiendas disponibles: ${availableStores.length}`);
+    // 1. Obtener las tiendas disponibles que participan en la búsqueda
+    const { selected: availableStores, skipped: skippedStores } = this.selectStores(options.stores);
+    console.log(`📦 Tiendas disponibles: ${availableStores.length}${skippedStores.length > 0 ? ` (omitidas: ${skippedStores.length})` : ''}`);
     
     // 2. Generar URLs de búsqueda
-    const searchUrls: Array<{ domain: string; url: string; name: string }> = [];
-    
-    for (const domain of availableStores) {
-      const searchUrl = this.configService.buildSearchUrl(domain, query);
-      const config = this.configService.getConfig(domain);
-      
-      if (searchUrl && config) {
-        searchUrls.push({ domain, url: searchUrl, name: config.name });
-      }
-    }
+    const searchUrls = this.buildSearchUrls(availableStores, query, options, skippedStores);
 
     // 3. Scrapear todas las tiendas en paralelo
     console.log(`⚡ Scraping ${searchUrls.length} tiendas en paralelo...\n`);
     
-    const scrapePromises = searchUrls.map(async ({ domain, url, name }) => {
+    const scrapePromises = searchUrls.map(async ({ domain, url, name, ignoredParams }) => {
       const storeStartTime = Date.now();
       
       try {
@@ -265,16 +290,27 @@ export class MultiStoreSearchService {
         const result = await this.scraperService.scrapeProducts(url, scrapeOptions);
         const duration = Date.now() - storeStartTime;
         
-        console.log(`✅ ${name}: ${result.products.length} productos (${(duration / 1000).toFixed(2)}s)`);
+        if (result.success) {
+          console.log(`✅ ${name}: ${result.products.length} productos (${(duration / 1000).toFixed(2)}s)`);
+        } else {
+          console.error(`❌ ${name}: ${result.failureClass} - ${result.error} (${result.attempts?.length || 1} intento(s))`);
+        }
         
         return {
           store: name,
           domain,
           products: result.products,
           count: result.products.length,
-          success: true,
+          success: result.success,
+          status: getStoreStatus(result),
+          error: result.error,
           searchUrl: url,
-          duration
+          duration,
+          priceParseFailures: result.priceParseFailures,
+          failureClass: result.failureClass,
+          blockReason: result.blockReason,
+          attempts: result.attempts,
+          ignoredParams
         } as StoreSearchResult;
       } catch (error) {
         const duration = Date.now() - storeStartTime;
@@ -286,16 +322,19 @@ export class MultiStoreSearchService {
           products: [],
           count: 0,
           success: false,
+          status: 'failed',
           error: error instanceof Error ? error.message : 'Unknown error',
           searchUrl: url,
-          duration
+          duration,
+          ignoredParams
         } as StoreSearchResult;
       }
     });
 
-    const storeResults = await Promise.all(scrapePromises);
+    const storeResults = this.filterByAvailability(await Promise.all(scrapePromises), options.availability);
 
     const successfulStores = storeResults.filter(r => r.success).length;
+    const blockedStores = storeResults.filter(r => r.status === 'blocked').length;
     const totalProducts = storeResults.reduce((sum, r) => sum + r.count, 0);
     const duration = Date.now() - startTime;
 
@@ -306,8 +345,11 @@ export class MultiStoreSearchService {
 
     return {
       search: query,
+      term: options.term,
       totalStores: storeResults.length,
       successfulStores,
+      blockedStores,
+      skippedStores,
       totalProducts,
       stores: storeResults,
       duration,
@@ -321,7 +363,7 @@ export class MultiStoreSearchService {
   async filterProducts(
     query: string,
     stores: StoreSearchResult[],
-    options: { topN?: number; filter?: string }
+    options: { topN?: number; filter?: string; availability?: AvailabilityStatus[] }
   ): Promise<MultiStoreSearchResult> {
     const startTime = Date.now();
     
@@ -329,7 +371,7 @@ export class MultiStoreSearchService {
     console.log(`🤖 FASE 2: FILTRADO - "${query}"`);
     console.log(`${'='.repeat(70)}\n`);
 
-    let filteredResults = stores;
+    let filteredResults = this.filterByAvailability(stores, options.availability);
     let filterSummary: string | undefined;
 
     // Aplicar filtrado por relevancia si se solicita topN
@@ -337,7 +379,7 @@ export class MultiStoreSearchService {
       console.log(`🤖 Aplicando filtrado por relevancia (top ${options.topN} por tienda)...\n`);
       
       filteredResults = await Promise.all(
-        stores.map(async (storeResult) => {
+        filteredResults.map(async (storeResult) => {
           if (!storeResult.success || storeResult.products.length === 0) {
             return storeResult;
           }
@@ -402,6 +444,7 @@ export class MultiStoreSearchService {
     const duration = Date.now() - startTime;
     const totalProducts = filteredResults.reduce((sum, r) => sum + r.count, 0);
     const successfulStores = filteredResults.filter(r => r.success).length;
+    const blockedStores = filteredResults.filter(r => r.status === 'blocked').length;
 
     console.log(`\n${'='.repeat(70)}`);
     console.log(`✅ FASE 2 completada en ${(duration / 1000).toFixed(2)}s`);
@@ -412,6 +455,7 @@ export class MultiStoreSearchService {
       search: query,
       totalStores: filteredResults.length,
       successfulStores,
+      blockedStores,
       totalProducts,
       stores: filteredResults,
       duration,
@@ -448,6 +492,7 @@ export class MultiStoreSearchService {
     const duration = Date.now() - startTime;
     const totalProducts = finalResults.reduce((sum, r) => sum + r.count, 0);
     const successfulStores = finalResults.filter(r => r.success).length;
+    const blockedStores = finalResults.filter(r => r.status === 'blocked').length;
 
     console.log(`\n${'='.repeat(70)}`);
     console.log(`✅ FASE 3 completada en ${(duration / 1000).toFixed(2)}s`);
@@ -458,18 +503,77 @@ export class MultiStoreSearchService {
       search: query,
       totalStores: finalResults.length,
       successfulStores,
+      blockedStores,
       totalProducts,
       stores: finalResults,
       duration
     };
   }
 
+  /**
+   * Tiendas válidas que participan en la búsqueda, según enabled/tags/region y la selección pedida
+   */
+  private selectStores(selection?: StoreSelection): StoreSelectionResult {
+    const stores = this.configService.listAvailableStores()
+      .map(domain => ({ domain, config: this.configService.getConfig(domain) }))
+      .filter((entry): entry is { domain: string; config: NonNullable<typeof entry.config> } => !!entry.config);
+
+    const result = selectStores(stores, selection);
+    result.skipped.forEach(({ domain, reason }) => console.log(`⏭️  ${domain}: omitida (${reason})`));
+    return result;
+  }
+
+  /**
+   * URLs de búsqueda de cada tienda con los parámetros pedidos
+   * Con type category/brand se usa el listado del término en cada tienda en vez del buscador
+   * Las tiendas sin listado para el término o a las que les falta un parámetro requerido se agregan a `skipped`
+   */
+  private buildSearchUrls(
+    domains: string[],
+    query: string,
+    options: { type?: SearchType; term?: TaxonomyTerm; params?: SearchParamValues },
+    skipped: StoreSelectionResult['skipped']
+  ): Array<{ domain: string; url: string; name: string; ignoredParams?: string[] }> {
+    const searchUrls: Array<{ domain: string; url: string; name: string; ignoredParams?: string[] }> = [];
+    const { type = 'open_search', term, params = {} } = options;
+
+    for (const domain of domains) {
+      const rendered = type !== 'open_search' && term
+        ? this.configService.renderBrowseUrl(domain, type, term, params)
+        : this.configService.renderSearchUrl(domain, query, params);
+      const config = this.configService.getConfig(domain);
+      if (!rendered || !config) continue;
+
+      if (!rendered.url) {
+        const reason = type !== 'open_search' && rendered.missing.includes(type) ? 'unsupported_type' : 'missing_params';
+        console.log(`⏭️  ${domain}: omitida (${reason}: ${rendered.missing.join(', ')})`);
+        skipped.push({ domain, reason });
+        continue;
+      }
+
+      if (rendered.ignored.length > 0) {
+        console.log(`ℹ️  ${config.name}: parámetros no soportados: ${rendered.ignored.join(', ')}`);
+      }
+
+      searchUrls.push({
+        domain,
+        url: rendered.url,
+        name: config.name,
+        ignoredParams: rendered.ignored.length > 0 ? rendered.ignored : undefined
+      });
+    }
+
+    return searchUrls;
+  }
+
   /**
    * Busca en una tienda específica
+   * Permite tiendas con `enabled: false` (útil para probar una tienda fuera de línea)
    */
   async searchInStore(
     domain: string,
-    query: string
+    query: string,
+    params: SearchParamValues = {}
   ): Promise<StoreSearchResult> {
     const config = this.configService.getConfig(domain);
     
@@ -477,11 +581,14 @@ export class MultiStoreSearchService {
       throw new Error(`No existe configuración para: ${domain}`);
     }
 
-    const searchUrl = this.configService.buildSearchUrl(domain, query);
+    const rendered = this.configService.renderSearchUrl(domain, query, params);
+    const searchUrl = rendered?.url;
     
     if (!searchUrl) {
-      throw new Error(`No se pudo generar URL de búsqueda para: ${domain}`);
+      const missing = rendered?.missing.length ? ` (faltan parámetros: ${rendered.missing.join(', ')})` : '';
+      throw new Error(`No se pudo generar URL de búsqueda para: ${domain}${missing}`);
     }
+    const ignoredParams = rendered.ignored.length > 0 ? rendered.ignored : undefined;
 
     const startTime = Date.now();
     
@@ -494,9 +601,16 @@ export class MultiStoreSearchService {
         domain,
         products: result.products,
         count: result.products.length,
-        success: true,
+        success: result.success,
+        status: getStoreStatus(result),
+        error: result.error,
         searchUrl,
-        duration
+        duration,
+        priceParseFailures: result.priceParseFailures,
+        failureClass: result.failureClass,
+        blockReason: result.blockReason,
+        attempts: result.attempts,
+        ignoredParams
       };
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -507,12 +621,49 @@ export class MultiStoreSearchService {
         products: [],
         count: 0,
         success: false,
+        status: 'failed',
         error: error instanceof Error ? error.message : 'Unknown error',
         searchUrl,
-        duration
+        duration,
+        ignoredParams
       };
     }
   }
+
+  /**
+   * Filtra los productos de cada tienda por estado de disponibilidad normalizado
+   * Sin estados especificados retorna los resultados sin cambios
+   */
+  private filterByAvailability(
+    results: StoreSearchResult[],
+    statuses?: AvailabilityStatus[]
+  ): StoreSearchResult[] {
+    if (!statuses || statuses.length === 0) {
+      return results;
+    }
+
+    console.log(`📦 Filtrando por disponibilidad: ${statuses.join(', ')}`);
+
+    return results.map(result => {
+      const products = result.products.filter(product =>
+        statuses.includes(product.availability_status || 'unknown')
+      );
+      return { ...result, products, count: products.length };
+    });
+  }
+}
+
+/**
+ * Estado de la tienda a partir del resultado del scraper
+ */
+function getStoreStatus(result: ScraperResult): StoreSearchStatus {
+  if (result.failureClass === 'bot_challenge') {
+    return 'blocked';
+  }
+  if (!result.success) {
+    return 'failed';
+  }
+  return result.products.length > 0 ? 'ok' : 'empty';
 }
 
 // Singleton
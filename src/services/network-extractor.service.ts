@@ -0,0 +1,235 @@
+import {
+  StoreConfig,
+  ExtractedProduct,
+  NetworkExtractionConfig,
+  NetworkFieldSpec,
+} from '../types/store-config.types';
+import { CapturedResponse, ReplayRequest } from './playwright.service';
+import { getSelectorExtractorService, PriceParseFailure } from './selector-extractor.service';
+import { parsePrice } from '../utils/price-parser';
+import { applyTransforms, resolveJsonPath } from '../utils/field-transforms';
+import { normalizeAvailability } from '../utils/availability';
+
+export interface NetworkExtraction {
+  products: ExtractedProduct[];
+  priceFailures: PriceParseFailure[];
+}
+
+// Headers que no se deben reenviar al repetir una petición capturada
+const SKIPPED_HEADERS = ['host', 'content-length', 'connection', 'accept-encoding'];
+
+/**
+ * Servicio para extraer productos de respuestas JSON (XHR/fetch) capturadas
+ * Mapea cada campo con rutas JSON configuradas en `extraction.network.fields`
+ */
+export class NetworkExtractorService {
+  private extractorService = getSelectorExtractorService();
+
+  /**
+   * Retorna las respuestas capturadas que contienen la lista de productos
+   */
+  findListingResponses(responses: CapturedResponse[], network: NetworkExtractionConfig): CapturedResponse[] {
+    return responses.filter(response =>
+      response.status < 400 && Array.isArray(resolveJsonPath(response.body, network.items_path))
+    );
+  }
+
+  /**
+   * Extrae los productos de un JSON de respuesta
+   */
+  extractProducts(
+    body: unknown,
+    config: Pick<StoreConfig, 'extraction' | 'price_format' | 'currency' | 'availability'>
+  ): NetworkExtraction {
+    const network = config.extraction?.network;
+    const products: ExtractedProduct[] = [];
+    const priceFailures: PriceParseFailure[] = [];
+
+    if (!network) {
+      return { products, priceFailures };
+    }
+
+    const items = resolveJsonPath(body, network.items_path);
+    if (!Array.isArray(items)) {
+      console.warn(`⚠️  Lista de productos no encontrada en la respuesta: ${network.items_path}`);
+      return { products, priceFailures };
+    }
+
+    const { fields } = network;
+
+    for (const item of items) {
+      const productName = this.readField(item, fields.title);
+      const url = this.readField(item, fields.url);
+      const itemFailures: Array<Omit<PriceParseFailure, 'product_name' | 'url'>> = [];
+      let detectedCurrency: string | undefined;
+
+      const readPrice = (field: PriceParseFailure['field'], spec?: NetworkFieldSpec): number => {
+        if (!spec) return 0;
+
+        // Los números sin transformaciones se usan tal cual; con transformaciones
+        // pasan por el mismo camino que el texto (ej: centavos -> regex/replace)
+        const raw = this.readValue(item, spec);
+        if (typeof raw === 'number' && (typeof spec === 'string' || !spec.transforms?.length)) {
+          return raw > 0 ? raw : 0;
+        }
+
+        const text = this.toText(raw, spec);
+        const result = parsePrice(text, config.price_format);
+        if (result.ok) {
+          detectedCurrency = detectedCurrency || result.price.currency;
+          return result.price.value;
+        }
+        if (result.reason !== 'empty') {
+          itemFailures.push({ field, raw: text, reason: result.reason });
+        }
+        return 0;
+      };
+
+      const currentPrice = readPrice('price', fields.price);
+      const regularPrice = readPrice('regular_price', fields.regular_price);
+      const offerPrice = readPrice('offer_price', fields.offer_price);
+      const offerBadge = fields.offer_badge ? this.readField(item, fields.offer_badge) : '';
+
+      const priceInfo = this.extractorService.buildPriceInfo(currentPrice, regularPrice, offerPrice);
+      const availability = fields.availability ? this.readField(item, fields.availability) : '';
+
+      const product: ExtractedProduct = {
+        url,
+        product_name: productName,
+        ...priceInfo,
+        price: priceInfo.sale_price ?? priceInfo.regular_price,
+        currency: (fields.currency && this.readField(item, fields.currency)) || detectedCurrency || config.currency,
+        image: (fields.image && this.readField(item, fields.image)) || undefined,
+        availability: availability || undefined,
+        ...normalizeAvailability(availability, config.availability),
+        offer_badge: offerBadge || undefined,
+        sku: (fields.sku && this.readField(item, fields.sku)) || undefined,
+        description: (fields.description && this.readField(item, fields.description)) || undefined,
+      };
+
+      if (productName) {
+        priceFailures.push(...itemFailures.map(failure => ({
+          ...failure,
+          product_name: productName,
+          url: url || undefined,
+        })));
+      }
+
+      // Validar que tenga al menos nombre y precio
+      if (product.product_name && product.price > 0) {
+        products.push(product);
+      }
+    }
+
+    console.log(`✅ Extraídos ${products.length} productos de respuesta JSON`);
+    return { products, priceFailures };
+  }
+
+  /**
+   * Construye la petición de la siguiente página de la API a partir de la respuesta actual
+   * Repite el método y el cuerpo de la petición original; la página va en el cuerpo JSON
+   * si ahí viene `page_param`, si no en la URL
+   * Retorna null si no hay paginación configurada o ya no quedan páginas
+   */
+  getNextPageRequest(response: CapturedResponse, network: NetworkExtractionConfig, currentPage: number): ReplayRequest | null {
+    if (!network.page_param) {
+      return null;
+    }
+
+    const items = resolveJsonPath(response.body, network.items_path);
+    if (!Array.isArray(items) || items.length === 0) {
+      return null;
+    }
+
+    if (network.total_path) {
+      const total = Number(resolveJsonPath(response.body, network.total_path));
+      const pageSize = network.page_size_path
+        ? Number(resolveJsonPath(response.body, network.page_size_path))
+        : items.length;
+
+      if (total > 0 && pageSize > 0 && currentPage >= Math.ceil(total / pageSize)) {
+        return null;
+      }
+    }
+
+    const nextPage = currentPage + 1;
+    const request: ReplayRequest = {
+      url: response.url,
+      method: response.method || 'GET',
+      postData: response.postData,
+      headers: this.getReplayHeaders(response),
+    };
+
+    const postBody = this.parsePostBody(response.postData);
+    if (postBody && network.page_param in postBody) {
+      request.postData = JSON.stringify({ ...postBody, [network.page_param]: nextPage });
+      return request;
+    }
+
+    try {
+      const url = new URL(response.url);
+      url.searchParams.set(network.page_param, String(nextPage));
+      request.url = url.toString();
+      return request;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Headers de la petición original que se pueden reenviar
+   */
+  private getReplayHeaders(response: CapturedResponse): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(response.requestHeaders).filter(
+        ([name]) => !name.startsWith(':') && !SKIPPED_HEADERS.includes(name.toLowerCase())
+      )
+    );
+  }
+
+  private parsePostBody(postData?: string): Record<string, unknown> | null {
+    if (!postData) {
+      return null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(postData);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? parsed as Record<string, unknown>
+        : null;
+    } catch {
+      return null;  // Cuerpo de formulario u otro formato
+    }
+  }
+
+  private readField(item: unknown, spec: NetworkFieldSpec): string {
+    return this.toText(this.readValue(item, spec), spec);
+  }
+
+  private readValue(item: unknown, spec: NetworkFieldSpec): unknown {
+    const path = typeof spec === 'string' ? spec : spec.path;
+    return resolveJsonPath(item, path);
+  }
+
+  /**
+   * Convierte el valor a texto (listas: primer elemento) y aplica las transformaciones
+   */
+  private toText(value: unknown, spec: NetworkFieldSpec): string {
+    const first = Array.isArray(value) ? value[0] : value;
+    const text = first === null || first === undefined
+      ? ''
+      : typeof first === 'object' ? JSON.stringify(first) : String(first).trim();
+
+    return typeof spec === 'string' ? text : applyTransforms(text, spec.transforms);
+  }
+}
+
+// Singleton
+let instance: NetworkExtractorService | null = null;
+
+export const getNetworkExtractorService = (): NetworkExtractorService => {
+  if (!instance) {
+    instance = new NetworkExtractorService();
+  }
+  return instance;
+};
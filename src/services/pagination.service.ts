@@ -1,5 +1,6 @@
 import * as cheerio from 'cheerio';
 import { PaginationConfig } from '../types/store-config.types';
+import { toSelectorAlternatives, findFirstMatch } from '../utils/selector-alternatives';
 
 export interface PaginationInfo {
   hasNextPage: boolean;
@@ -22,20 +23,26 @@ export class PaginationService {
 
     const $ = cheerio.load(html);
 
-    // Buscar botón de siguiente página
-    const nextButton = $(config.next_button);
-    
-    if (nextButton.length === 0) {
-      console.log('  ℹ️  No se encontró botón de siguiente página');
-      return { hasNextPage: false };
+    // Buscar botón de siguiente página (primera alternativa con URL)
+    const alternatives = toSelectorAlternatives(config.next_button, config.next_button_attribute);
+    let foundButton = false;
+    let nextPageUrl = '';
+
+    for (const alternative of alternatives) {
+      const nextButton = $(alternative.selector);
+      if (nextButton.length === 0) continue;
+
+      foundButton = true;
+      nextPageUrl = alternative.attribute === 'text'
+        ? nextButton.text().trim()
+        : nextButton.attr(alternative.attribute)?.trim() || '';
+
+      if (nextPageUrl) break;
     }
 
-    // Obtener URL de siguiente página
-    let nextPageUrl = '';
-    if (config.next_button_attribute === 'text') {
-      nextPageUrl = nextButton.text().trim();
-    } else {
-      nextPageUrl = nextButton.attr(config.next_button_attribute)?.trim() || '';
+    if (!foundButton) {
+      console.log('  ℹ️  No se encontró botón de siguiente página');
+      return { hasNextPage: false };
     }
 
     if (!nextPageUrl) {
@@ -54,8 +61,8 @@ export class PaginationService {
     // Detectar página actual (opcional)
     let currentPage: number | undefined;
     if (config.current_page_selector) {
-      const currentPageText = $(config.current_page_selector).text().trim();
-      currentPage = parseInt(currentPageText) || undefined;
+      const match = findFirstMatch($.root(), config.current_page_selector);
+      currentPage = match ? parseInt(match.elements.text().trim()) || undefined : undefined;
     }
 
     // También se puede detectar desde la URL
@@ -68,8 +75,8 @@ export class PaginationService {
     // Detectar total de páginas (opcional)
     let totalPages: number | undefined;
     if (config.total_pages_selector) {
-      const totalPagesText = $(config.total_pages_selector).text().trim();
-      totalPages = parseInt(totalPagesText) || undefined;
+      const match = findFirstMatch($.root(), config.total_pages_selector);
+      totalPages = match ? parseInt(match.elements.text().trim()) || undefined : undefined;
     }
 
     console.log(`  📄 Paginación detectada: página ${currentPage || '?'} de ${totalPages || '?'}`);
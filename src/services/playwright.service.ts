@@ -1,16 +1,99 @@
-import { chromium, Browser, Page } from 'playwright';
+import { devices, BrowserContextOptions, Page, Response } from 'playwright';
 import * as cheerio from 'cheerio';
 import { createContextLogger } from '../utils/logger';
+import { ScrapingConfig, ViewportConfig, ResourceBlockingConfig } from '../types/store-config.types';
+import {
+  ResourceBlockingStats,
+  createBlockingStats,
+  getBlockReason,
+  recordBlocked,
+} from '../utils/resource-blocking';
+import { getBrowserPoolService } from './browser-pool.service';
+import { ProxySettings } from './proxy.service';
+import { getFixtureService } from './fixture.service';
+import { ScrapeError, failureClassForStatus, toScrapeError } from '../utils/scrape-errors';
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+export const DEFAULT_MOBILE_DEVICE = 'iPhone 13';
 
 export interface ScrapedContent {
   html: string;
   text: string;
   url: string;
   title: string;
+  responses?: CapturedResponse[];  // Respuestas JSON capturadas (modo network)
+  blocking?: ResourceBlockingStats;  // Peticiones bloqueadas (si la tienda define block_resources)
+}
+
+/**
+ * Respuesta XHR/fetch JSON capturada durante la navegación
+ */
+export interface CapturedResponse {
+  url: string;
+  status: number;
+  body: unknown;
+  requestHeaders: Record<string, string>;
+  method: string;      // Método de la petición original (GET, POST...)
+  postData?: string;   // Cuerpo de la petición original (APIs de búsqueda por POST)
+}
+
+/**
+ * Petición a repetir contra la API de la tienda (siguiente página en modo network)
+ */
+export interface ReplayRequest {
+  url: string;
+  method: string;
+  postData?: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Configuración del contexto del navegador (y de los headers en engine http)
+ */
+export interface BrowserContextSettings {
+  userAgent?: string;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  locale?: string;
+  timezone?: string;
+  viewport?: ViewportConfig;
+  mobile?: boolean;
+  device?: string;   // Nombre de dispositivo de Playwright (ej: "iPhone 13", "Pixel 5")
+  maxConcurrency?: number;  // Páginas simultáneas para el dominio (límite del pool)
+  blockResources?: ResourceBlockingConfig;
+  proxy?: ProxySettings | null;  // Proxy elegido por ProxyService para este request
+}
+
+/**
+ * Convierte el bloque `scraping` de una tienda en la configuración del contexto
+ * `mobile` (por request) tiene prioridad sobre `scraping.mobile`
+ */
+export function toContextSettings(scraping?: Partial<ScrapingConfig>, mobile?: boolean): BrowserContextSettings {
+  return {
+    userAgent: scraping?.user_agent,
+    headers: scraping?.headers,
+    cookies: scraping?.cookies,
+    locale: scraping?.locale,
+    timezone: scraping?.timezone,
+    viewport: scraping?.viewport,
+    mobile: mobile ?? scraping?.mobile ?? false,
+    device: scraping?.mobile_device,
+    maxConcurrency: scraping?.max_concurrency,
+    blockResources: scraping?.block_resources,
+  };
+}
+
+/**
+ * Descriptor del dispositivo móvil a emular (undefined si no es móvil o no existe)
+ */
+export function getMobileDevice(settings: BrowserContextSettings): (typeof devices)[string] | undefined {
+  if (!settings.mobile) return undefined;
+  return devices[settings.device || DEFAULT_MOBILE_DEVICE];
 }
 
 export class PlaywrightService {
-  private browser: Browser | null = null;
+  private pool = getBrowserPoolService();
+  private fixtures = getFixtureService();
   private logger = createContextLogger('');  // Sin contexto por defecto
 
   /**
@@ -21,29 +104,10 @@ export class PlaywrightService {
   }
 
   /**
-   * Inicializa el browser de Playwright
+   * Inicializa el browser de Playwright (compartido a través del pool)
    */
   async initialize(): Promise<void> {
-    if (!this.browser) {
-      this.logger.debug('Iniciando Playwright browser...');
-
-      // En producción Docker, usar Chromium del sistema
-      const executablePath = process.env.PLAYWRIGHT_CHROMIUM_EXECUTABLE_PATH ||
-                           (process.env.NODE_ENV === 'production' ? '/usr/bin/chromium-browser' : undefined);
-
-      const launchOptions: any = {
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
-      };
-
-      if (executablePath) {
-        launchOptions.executablePath = executablePath;
-        this.logger.debug(`Usando Chromium del sistema: ${executablePath}`);
-      }
-
-      this.browser = await chromium.launch(launchOptions);
-      this.logger.debug('Browser iniciado');
-    }
+    await this.pool.getBrowser();
   }
 
   /**
@@ -54,41 +118,67 @@ export class PlaywrightService {
     selector?: string;
     waitForSelectors?: string[];  // Múltiples selectores para SPAs
     scroll?: boolean;  // Si hacer scroll o no
+    captureResponses?: { urlPattern: string; timeout?: number };  // Capturar respuestas JSON de una API
+    context?: BrowserContextSettings;  // User agent, headers, cookies, locale, viewport, móvil
   }): Promise<ScrapedContent> {
-    await this.initialize();
-
-    if (!this.browser) {
-      throw new Error('Browser no inicializado');
+    // Modo replay (SCRAPE_FIXTURES_MODE=replay): servir la página grabada sin abrir el navegador
+    if (this.fixtures.isReplaying()) {
+      this.logger.scraping(`Reproduciendo fixture: ${url}`);
+      return this.fixtures.loadPage(url);
     }
 
     this.logger.scraping(`Iniciando: ${url}`);
 
-    const context = await this.browser.newContext({
-      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    // Página prestada por el pool (respeta los límites globales y por dominio)
+    const lease = await this.pool.acquire(url, {
+      contextOptions: this.buildContextOptions(options?.context),
+      cookies: options?.context?.cookies,
+      maxPerDomain: options?.context?.maxConcurrency,
     });
+    const { page } = lease;
 
-    const page: Page = await context.newPage();
-
+    // Todo lo que usa la página va dentro del try: si algo falla, el lease se libera igual
     try {
+      const blocking = options?.context?.blockResources
+        ? await this.applyResourceBlocking(page, url, options.context.blockResources)
+        : undefined;
+
+      // Registrar la captura antes de navegar para no perder las primeras respuestas
+      const capture = options?.captureResponses
+        ? this.startResponseCapture(page, options.captureResponses.urlPattern)
+        : null;
+
       // Estrategia optimizada: usar domcontentloaded con timeout corto
       // Es más rápido y suficiente para la mayoría de SPAs
+      let response: Response | null;
       try {
-        await page.goto(url, {
+        response = await page.goto(url, {
           waitUntil: 'domcontentloaded',
           timeout: 30000  // 30 segundos máximo
         });
         this.logger.debug('Navegación exitosa con domcontentloaded');
       } catch (navError) {
-        // Fallback: intentar con networkidle solo si falla
+        // Fallback: intentar con networkidle solo si fue un timeout (DNS/conexión no se recuperan así)
+        if (toScrapeError(navError).failureClass !== 'timeout') {
+          throw navError;
+        }
         this.logger.debug('Intentando fallback con networkidle');
-        await page.goto(url, {
+        response = await page.goto(url, {
           waitUntil: 'networkidle',
           timeout: 30000
         });
       }
 
-      // Esperar selectores específicos si se proporcionan (importante para SPAs)
-      if (options?.waitForSelectors && options.waitForSelectors.length > 0) {
+      const status = response?.status() ?? 0;
+      if (status >= 400) {
+        const body = await page.content().catch(() => undefined);
+        throw new ScrapeError(failureClassForStatus(status), `Failed to scrape: HTTP ${status}`, { status, url, body });
+      }
+
+      // Con captura de red basta con esperar la respuesta de la API
+      if (capture && options?.captureResponses) {
+        await capture.waitForFirst(options.captureResponses.timeout || 15000);
+      } else if (options?.waitForSelectors && options.waitForSelectors.length > 0) {
         this.logger.debug('Esperando selectores dinámicos...');
         for (const selector of options.waitForSelectors) {
           try {
@@ -105,7 +195,7 @@ export class PlaywrightService {
       }
 
       // Hacer scroll solo si está habilitado (por defecto true para compatibilidad)
-      const shouldScroll = options?.scroll !== false;
+      const shouldScroll = options?.scroll !== false && !capture;
       if (shouldScroll) {
         this.logger.debug('Haciendo scroll...');
         await this.autoScroll(page);
@@ -137,23 +227,190 @@ export class PlaywrightService {
       // Obtener el título
       const title = await page.title();
 
+      const responses = capture ? await capture.collect() : undefined;
+
       this.logger.success(`Completado: ${title} (${(html.length / 1024).toFixed(2)} KB)`);
+      if (responses) {
+        this.logger.debug(`Respuestas JSON capturadas: ${responses.length}`);
+      }
+      if (blocking) {
+        this.logger.debug(`Peticiones bloqueadas: ${blocking.blockedRequests} (~${(blocking.estimatedBytesSaved / 1024).toFixed(0)} KB)`);
+      }
 
-      await context.close();
+      await lease.release();
 
-      return {
+      const content: ScrapedContent = {
         html,
         text,
         url,
-        title
+        title,
+        ...(responses && { responses }),
+        ...(blocking && { blocking: { ...blocking } })
       };
+
+      if (this.fixtures.isRecording()) {
+        await this.fixtures.savePage(url, content);
+      }
+
+      return content;
     } catch (error) {
-      await context.close();
-      this.logger.error('Error en scraping:', error);
-      throw new Error(`Failed to scrape: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await lease.release();
+      const scrapeError = toScrapeError(error);
+      this.logger.error(`Error en scraping (${scrapeError.failureClass}):`, error);
+      throw scrapeError;
     }
   }
 
+  /**
+   * Opciones de Playwright para el contexto según la configuración de la tienda
+   * En modo móvil se usa el descriptor del dispositivo (user agent, viewport, touch)
+   */
+  private buildContextOptions(settings: BrowserContextSettings = {}): BrowserContextOptions {
+    const device = getMobileDevice(settings);
+    if (settings.mobile && !device) {
+      this.logger.warn(`Dispositivo desconocido: ${settings.device}, usando escritorio`);
+    }
+
+    return {
+      ...device,
+      userAgent: device?.userAgent || settings.userAgent || DEFAULT_USER_AGENT,
+      ...(!device && settings.viewport && { viewport: settings.viewport }),
+      ...(settings.locale && { locale: settings.locale }),
+      ...(settings.timezone && { timezoneId: settings.timezone }),
+      ...(settings.headers && { extraHTTPHeaders: settings.headers }),
+      ...(settings.proxy && { proxy: settings.proxy }),
+    };
+  }
+
+  /**
+   * Intercepta las peticiones de la página y aborta las que coinciden con las reglas
+   * Retorna las estadísticas, que se actualizan mientras la página carga
+   */
+  private async applyResourceBlocking(
+    page: Page,
+    pageUrl: string,
+    config: ResourceBlockingConfig
+  ): Promise<ResourceBlockingStats> {
+    const stats = createBlockingStats();
+
+    await page.route('**/*', route => {
+      const request = route.request();
+      const reason = getBlockReason(
+        {
+          url: request.url(),
+          resourceType: request.resourceType(),
+          isMainDocument: request.isNavigationRequest() && request.frame() === page.mainFrame(),
+        },
+        config,
+        pageUrl
+      );
+
+      if (reason) {
+        recordBlocked(stats, request.resourceType(), reason);
+        return route.abort('blockedbyclient');
+      }
+
+      stats.allowedRequests++;
+      return route.continue();
+    });
+
+    page.on('response', response => {
+      const length = parseInt(response.headers()['content-length'] || '', 10);
+      if (length > 0) {
+        stats.bytesLoaded += length;
+      }
+    });
+
+    return stats;
+  }
+
+  /**
+   * Obtiene un JSON directamente (ej: siguiente página de una API capturada)
+   * Repite el método, cuerpo y headers de la petición original para mantener la sesión
+   */
+  async fetchJson(request: ReplayRequest, context?: BrowserContextSettings): Promise<unknown> {
+    const { url, method, postData, headers } = request;
+
+    if (this.fixtures.isReplaying()) {
+      return this.fixtures.loadJson(url);
+    }
+
+    const lease = await this.pool.acquire(url, context && {
+      contextOptions: this.buildContextOptions(context),
+      maxPerDomain: context.maxConcurrency,
+    });
+
+    try {
+      const response = await lease.context.request.fetch(url, {
+        method,
+        headers,
+        data: postData,
+        timeout: 30000,
+      });
+      if (!response.ok()) {
+        throw new ScrapeError(failureClassForStatus(response.status()), `HTTP ${response.status()}`, {
+          status: response.status(),
+          url,
+        });
+      }
+      const body = await response.json();
+      if (this.fixtures.isRecording()) {
+        await this.fixtures.saveJson(url, body);
+      }
+      return body;
+    } finally {
+      await lease.release();
+    }
+  }
+
+  /**
+   * Escucha las respuestas JSON cuya URL coincide con el patrón
+   */
+  private startResponseCapture(page: Page, urlPattern: string) {
+    const pattern = new RegExp(urlPattern);
+    const pending: Array<Promise<CapturedResponse | null>> = [];
+    let resolveFirst: () => void = () => {};
+    const first = new Promise<void>(resolve => { resolveFirst = resolve; });
+
+    const parse = async (response: Response): Promise<CapturedResponse | null> => {
+      try {
+        const body = await response.json();
+        resolveFirst();
+        return {
+          url: response.url(),
+          status: response.status(),
+          body,
+          requestHeaders: await response.request().allHeaders(),
+          method: response.request().method(),
+          postData: response.request().postData() ?? undefined,
+        };
+      } catch {
+        return null;  // No era JSON
+      }
+    };
+
+    page.on('response', response => {
+      const type = response.request().resourceType();
+      if ((type === 'xhr' || type === 'fetch') && pattern.test(response.url())) {
+        this.logger.debug(`Respuesta capturada: ${response.url()}`);
+        pending.push(parse(response));
+      }
+    });
+
+    return {
+      waitForFirst: async (timeout: number): Promise<void> => {
+        let timer: NodeJS.Timeout | undefined;
+        const timeoutPromise = new Promise<void>(resolve => { timer = setTimeout(resolve, timeout); });
+        await Promise.race([first, timeoutPromise]);
+        clearTimeout(timer);
+      },
+      collect: async (): Promise<CapturedResponse[]> => {
+        const results = await Promise.all(pending);
+        return results.filter((response): response is CapturedResponse => response !== null);
+      },
+    };
+  }
+
   /**
    * Auto-scroll optimizado para cargar contenido lazy-loaded
    */
@@ -249,15 +506,10 @@ export class PlaywrightService {
   }
 
   /**
-   * Cierra el browser
+   * Cierra el browser compartido y los contextos del pool
    */
   async close(): Promise<void> {
-    if (this.browser) {
-      this.logger.debug('Cerrando browser...');
-      await this.browser.close();
-      this.browser = null;
-      this.logger.debug('Browser cerrado');
-    }
+    await this.pool.close();
   }
 }
 
@@ -0,0 +1,116 @@
+import { getRobotsService } from './robots.service';
+import { getFixtureService } from './fixture.service';
+import { PolitenessConfig, ScrapingConfig } from '../types/store-config.types';
+import { createContextLogger } from '../utils/logger';
+import { ScrapeError } from '../utils/scrape-errors';
+import { TokenBucket, TokenBucketLimit } from '../utils/token-bucket';
+
+const DEFAULT_REQUESTS_PER_SECOND = 1;
+const DEFAULT_BURST = 1;
+
+export interface DomainRateMetrics {
+  ratePerSecond: number;
+  available: number;
+  waiting: number;
+}
+
+/**
+ * Cortesía por dominio, compartida entre todos los requests concurrentes
+ * - Consulta el robots.txt antes de navegar (salvo override `respect_robots_txt: false`)
+ * - Limita la tasa con un token bucket por dominio (respeta Crawl-delay si es más lento)
+ */
+export class PolitenessService {
+  private robotsService = getRobotsService();
+  private fixtures = getFixtureService();
+  private buckets = new Map<string, TokenBucket>();
+  private logger = createContextLogger('');
+
+  setContext(context: string): void {
+    this.logger = createContextLogger(context);
+  }
+
+  /**
+   * Espera el turno para pedir la URL. Lanza ScrapeError robots_disallowed si no está permitida
+   * `storeKey` identifica a la tienda en el pool de proxies (default: el hostname de la URL)
+   */
+  async beforeRequest(url: string, scraping?: Partial<ScrapingConfig>, storeKey?: string): Promise<void> {
+    // Reproduciendo fixtures no se hacen requests a la tienda
+    if (this.fixtures.isReplaying()) {
+      return;
+    }
+
+    const politeness: PolitenessConfig = scraping?.politeness || {};
+    let crawlDelay: number | undefined;
+
+    if (politeness.respect_robots_txt !== false) {
+      const robots = await this.robotsService.check(url, scraping, storeKey);
+      if (!robots.allowed) {
+        throw new ScrapeError('robots_disallowed', `Disallowed by robots.txt: ${url}`, { url });
+      }
+      crawlDelay = robots.crawlDelay;
+    }
+
+    const domain = new URL(url).hostname;
+    const waited = await this.getBucket(domain, resolveLimit(politeness, crawlDelay)).take();
+    if (waited > 0) {
+      this.logger.debug(`Rate limit ${domain}: esperó ${waited}ms`);
+    }
+  }
+
+  /**
+   * Estado de los límites por dominio (para monitoreo)
+   */
+  getMetrics(): Record<string, DomainRateMetrics> {
+    const metrics: Record<string, DomainRateMetrics> = {};
+    for (const [domain, bucket] of this.buckets) {
+      metrics[domain] = {
+        ratePerSecond: bucket.limit.ratePerSecond,
+        available: Math.floor(bucket.available),
+        waiting: bucket.pending,
+      };
+    }
+    return metrics;
+  }
+
+  private getBucket(domain: string, limit: TokenBucketLimit): TokenBucket {
+    let bucket = this.buckets.get(domain);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(domain, bucket);
+    } else if (
+      bucket.limit.ratePerSecond !== limit.ratePerSecond ||
+      bucket.limit.burst !== limit.burst
+    ) {
+      bucket.setLimit(limit);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * Límite efectivo: la configuración de la tienda, o el Crawl-delay si es más restrictivo
+ */
+function resolveLimit(politeness: PolitenessConfig, crawlDelay?: number): TokenBucketLimit {
+  let ratePerSecond = politeness.requests_per_second && politeness.requests_per_second > 0
+    ? politeness.requests_per_second
+    : DEFAULT_REQUESTS_PER_SECOND;
+
+  if (crawlDelay && crawlDelay > 0) {
+    ratePerSecond = Math.min(ratePerSecond, 1 / crawlDelay);
+  }
+
+  return {
+    ratePerSecond,
+    burst: Math.max(1, politeness.burst || DEFAULT_BURST),
+  };
+}
+
+// Singleton instance
+let instance: PolitenessService | null = null;
+
+export const getPolitenessService = (): PolitenessService => {
+  if (!instance) {
+    instance = new PolitenessService();
+  }
+  return instance;
+};
@@ -0,0 +1,129 @@
+import { DEFAULT_USER_AGENT, toContextSettings } from './playwright.service';
+import { getHttpFetchService } from './http-fetch.service';
+import { getProxyService } from './proxy.service';
+import { ScrapingConfig } from '../types/store-config.types';
+import { createContextLogger } from '../utils/logger';
+import { RobotsTxt, parseRobotsTxt, getRobotsGroup, isAllowedByRobots } from '../utils/robots-txt';
+
+const ROBOTS_TTL_MS = 60 * 60 * 1000;          // robots.txt válido: 1 hora
+const ROBOTS_ERROR_TTL_MS = 10 * 60 * 1000;    // Error al descargarlo: reintentar en 10 minutos
+const ROBOTS_TIMEOUT_MS = 5000;
+
+export interface RobotsCheck {
+  allowed: boolean;
+  crawlDelay?: number;     // Segundos, si el robots.txt lo define para este user agent
+}
+
+interface CachedRobots {
+  robots: RobotsTxt | null;   // null: sin robots.txt (se permite todo)
+  expiresAt: number;
+}
+
+/**
+ * Descarga, cachea (por origen) y consulta el robots.txt de las tiendas
+ * - Se descarga como un request más de la tienda: mismo user agent, headers y proxy
+ * - 404 u otro 4xx: no hay restricciones
+ * - Error de red o 5xx: se permite todo, pero se vuelve a intentar antes
+ */
+export class RobotsService {
+  private logger = createContextLogger('Robots');
+  private httpFetchService = getHttpFetchService();
+  private proxyService = getProxyService();
+  private cache = new Map<string, CachedRobots>();
+  private pending = new Map<string, Promise<CachedRobots>>();
+
+  /**
+   * Consulta si la URL se puede visitar y el crawl-delay que aplica
+   * `storeKey` identifica a la tienda en el pool de proxies (default: el hostname)
+   */
+  async check(url: string, scraping?: Partial<ScrapingConfig>, storeKey?: string): Promise<RobotsCheck> {
+    const parsed = new URL(url);
+    const userAgent = scraping?.user_agent || DEFAULT_USER_AGENT;
+    const { robots } = await this.getRobots(parsed.origin, scraping, storeKey || parsed.hostname);
+
+    if (!robots) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: isAllowedByRobots(robots, userAgent, `${parsed.pathname}${parsed.search}`),
+      crawlDelay: getRobotsGroup(robots, userAgent)?.crawlDelay,
+    };
+  }
+
+  /**
+   * Limpia la cache (ej: después de cambiar la configuración de una tienda)
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async getRobots(
+    origin: string,
+    scraping: Partial<ScrapingConfig> | undefined,
+    storeKey: string
+  ): Promise<CachedRobots> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    // Requests concurrentes al mismo dominio comparten la descarga
+    let request = this.pending.get(origin);
+    if (!request) {
+      request = this.fetchRobots(origin, scraping, storeKey).finally(() => {
+        this.pending.delete(origin);
+      });
+      this.pending.set(origin, request);
+    }
+
+    const entry = await request;
+    this.cache.set(origin, entry);
+    return entry;
+  }
+
+  private async fetchRobots(
+    origin: string,
+    scraping: Partial<ScrapingConfig> | undefined,
+    storeKey: string
+  ): Promise<CachedRobots> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await this.proxyService.run(storeKey, scraping?.proxy, proxy =>
+        this.httpFetchService.fetchText(robotsUrl, {
+          ...toContextSettings(scraping),
+          proxy,
+          timeout: ROBOTS_TIMEOUT_MS,
+        })
+      );
+
+      if (response.status >= 200 && response.status < 300) {
+        const robots = parseRobotsTxt(response.text);
+        this.logger.debug(`robots.txt cargado: ${robotsUrl} (${robots.groups.length} grupos)`);
+        return { robots, expiresAt: Date.now() + ROBOTS_TTL_MS };
+      }
+
+      if (response.status < 500) {
+        this.logger.debug(`Sin robots.txt en ${origin} (HTTP ${response.status})`);
+        return { robots: null, expiresAt: Date.now() + ROBOTS_TTL_MS };
+      }
+
+      this.logger.warn(`robots.txt no disponible en ${origin} (HTTP ${response.status})`);
+    } catch (error) {
+      this.logger.warn(`No se pudo descargar ${robotsUrl}:`, error);
+    }
+
+    return { robots: null, expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS };
+  }
+}
+
+// Singleton instance
+let instance: RobotsService | null = null;
+
+export const getRobotsService = (): RobotsService => {
+  if (!instance) {
+    instance = new RobotsService();
+  }
+  return instance;
+};
@@ -1,9 +1,29 @@
-import { getPlaywrightService } from './playwright.service';
+import { getPlaywrightService, ScrapedContent, toContextSettings } from './playwright.service';
+import { getHttpFetchService } from './http-fetch.service';
 import { getStoreConfigService } from './store-config.service';
-import { getSelectorExtractorService } from './selector-extractor.service';
+import { getSelectorExtractorService, PriceParseFailure, SelectorMatchReport } from './selector-extractor.service';
 import { getPaginationService } from './pagination.service';
+import { getStructuredDataService } from './structured-data.service';
+import { getNetworkExtractorService } from './network-extractor.service';
+import { getPolitenessService } from './politeness.service';
+import { getProxyService, ProxySettings } from './proxy.service';
 import { SimpleProduct, ScrapeOptions } from '../types/product.types';
+import { ExtractedProduct, NetworkExtractionConfig, StoreConfig } from '../types/store-config.types';
 import { createContextLogger } from '../utils/logger';
+import { ResourceBlockingStats, createBlockingStats, mergeBlockingStats } from '../utils/resource-blocking';
+import { ScrapeError, ScrapeFailureClass, toScrapeError } from '../utils/scrape-errors';
+import { detectBotChallenge } from '../utils/bot-challenge';
+import { resolveRetryPolicy, isRetryable, getBackoffDelay } from '../utils/retry-policy';
+
+/**
+ * Registro de un intento de scraping (historial que se retorna con el resultado)
+ */
+export interface ScrapeAttempt {
+  attempt: number;
+  outcome: 'success' | ScrapeFailureClass;
+  message?: string;
+  durationMs: number;
+}
 
 export interface ScraperResult {
   success: boolean;
@@ -13,7 +33,23 @@ export interface ScraperResult {
   timestamp: Date;
   summary?: string;
   error?: string;
-  method?: 'selector' | 'ai';  // Método usado para extracción
+  method?: 'selector' | 'network' | 'ai';  // Método usado para extracción
+  priceParseFailures?: PriceParseFailure[];  // Precios que no se pudieron interpretar
+  selectorMatches?: SelectorMatchReport;     // Qué alternativa de selector resolvió cada campo
+  resourceBlocking?: ResourceBlockingStats;  // Peticiones/bytes ahorrados por block_resources
+  failureClass?: ScrapeFailureClass;         // Clase de fallo (solo si success es false)
+  blockReason?: string;                      // Marcador de la página de bloqueo si failureClass es bot_challenge
+  attempts?: ScrapeAttempt[];                // Historial de intentos según scraping.retry
+}
+
+/**
+ * Resultado de un intento junto con su clasificación
+ * Un listado sin productos es exitoso, pero su outcome (empty_results/selector_missing)
+ * permite reintentarlo según retry_on
+ */
+interface AttemptResult {
+  result: ScraperResult;
+  outcome: ScrapeAttempt['outcome'];
 }
 
 /**
@@ -24,17 +60,20 @@ export interface ScraperResult {
  */
 export class ScraperService {
   private playwrightService = getPlaywrightService();
+  private httpFetchService = getHttpFetchService();
   private configService = getStoreConfigService();
   private extractorService = getSelectorExtractorService();
   private paginationService = getPaginationService();
+  private structuredDataService = getStructuredDataService();
+  private networkExtractorService = getNetworkExtractorService();
+  private politenessService = getPolitenessService();
+  private proxyService = getProxyService();
 
   /**
    * Scrape una URL y extrae productos usando configuración YAML
    * REQUIERE que el dominio tenga configuración
    */
   async scrapeProducts(url: string, options?: ScrapeOptions): Promise<ScraperResult> {
-    const startTime = Date.now();
-    
     // 1. Verificar si existe configuración para este dominio
     const config = this.configService.getConfigFromUrl(url);
     
@@ -52,24 +91,81 @@ export class ScraperService {
     const logger = createContextLogger(config.name);
     logger.section(`🚀 Iniciando scraping: ${url}`);
 
+    // 2. Intentar según la política de reintentos de la tienda
+    const policy = resolveRetryPolicy(config.scraping.retry);
+    const attempts: ScrapeAttempt[] = [];
+
+    let { result, outcome } = await this.attemptScrape(url, config, options, logger, attempts);
+    while (
+      outcome !== 'success' &&
+      attempts.length < policy.attempts &&
+      isRetryable(policy, outcome)
+    ) {
+      const delay = getBackoffDelay(policy, attempts.length);
+      logger.warn(
+        `Intento ${attempts.length}/${policy.attempts} falló (${outcome}), reintentando en ${delay}ms`
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+      ({ result, outcome } = await this.attemptScrape(url, config, options, logger, attempts));
+    }
+
+    return { ...result, attempts };
+  }
+
+  /**
+   * Un intento completo de scraping (network con fallback a selectores)
+   * Los errores se clasifican y se retornan como resultado fallido
+   */
+  private async attemptScrape(
+    url: string,
+    config: StoreConfig,
+    options: ScrapeOptions | undefined,
+    logger: ReturnType<typeof createContextLogger>,
+    attempts: ScrapeAttempt[]
+  ): Promise<AttemptResult> {
+    const startTime = Date.now();
+    let attempt: AttemptResult;
+
     try {
-      return await this.scrapeWithSelectors(url, config, options, logger);
-      
+      const network = config.extraction?.mode === 'network' ? config.extraction.network : undefined;
+      const networkResult = network
+        ? await this.scrapeWithNetwork(url, config, network, options, logger)
+        : null;
+
+      if (network && !networkResult) {
+        logger.warn('Sin respuestas JSON útiles, usando extracción por selectores');
+      }
+
+      attempt = networkResult || await this.scrapeWithSelectors(url, config, options, logger);
+
     } catch (error) {
       const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-      
-      const logger = createContextLogger(config.name);
-      logger.error(`Error en scraping (${duration}s):`, error);
-
-      return {
-        success: false,
-        products: [],
-        totalFound: 0,
-        source: url,
-        timestamp: new Date(),
-        error: error instanceof Error ? error.message : 'Unknown error'
+      const scrapeError = this.detectBlockedResponse(toScrapeError(error), config);
+      logger.error(`Error en scraping (${duration}s, ${scrapeError.failureClass}):`, error);
+
+      attempt = {
+        result: {
+          success: false,
+          products: [],
+          totalFound: 0,
+          source: url,
+          timestamp: new Date(),
+          error: scrapeError.message,
+          failureClass: scrapeError.failureClass,
+          blockReason: scrapeError.details.reason,
+        },
+        outcome: scrapeError.failureClass,
       };
     }
+
+    attempts.push({
+      attempt: attempts.length + 1,
+      outcome: attempt.outcome,
+      message: attempt.result.error,
+      durationMs: Date.now() - startTime,
+    });
+
+    return attempt;
   }
 
   /**
@@ -78,48 +174,88 @@ export class ScraperService {
    */
   private async scrapeWithSelectors(
     url: string,
-    config: any,
+    config: StoreConfig,
     options?: ScrapeOptions,
     logger?: ReturnType<typeof createContextLogger>
-  ): Promise<ScraperResult> {
+  ): Promise<AttemptResult> {
     const log = logger || createContextLogger(config.name);
     const startTime = Date.now();
-    let allProducts: any[] = [];
+    const allProducts: ExtractedProduct[] = [];
+    const priceParseFailures: PriceParseFailure[] = [];
+    const selectorMatches: SelectorMatchReport = {};
+    let resourceBlocking: ResourceBlockingStats | undefined;
+    let missingSelector: string | undefined;
     let currentUrl = url;
     let pageNumber = 1;
 
-    // Verificar si la paginación está habilitada
-    const paginationEnabled = config.scraping.pagination?.enabled;
-
-    // Establecer contexto para el servicio de Playwright
-    this.playwrightService.setContext(config.name);
+    // Paginación opcional (scraping.pagination.enabled)
+    const pagination = config.scraping.pagination;
 
     while (true) {
       log.info(`Página ${pageNumber}`);
 
-      // 1. Scraping con Playwright
-      const scrapedContent = await this.playwrightService.scrapeUrl(currentUrl, {
-        waitTime: options?.waitFor || config.scraping.wait_time,
-        waitForSelectors: config.scraping.wait_for_selectors,
-        scroll: config.scraping.scroll !== false,  // Respetar configuración de scroll
-      });
+      // 1. Descargar la página (Playwright o HTTP según el engine de la tienda)
+      // Si falla una página posterior a la primera se conservan los productos ya extraídos
+      let scrapedContent: ScrapedContent;
+      try {
+        scrapedContent = await this.fetchPage(currentUrl, config, options);
+      } catch (error) {
+        if (pageNumber === 1) {
+          throw error;
+        }
+        log.warn(`No se pudo obtener la página ${pageNumber}:`, error);
+        pageNumber--;
+        break;
+      }
+      if (scrapedContent.blocking) {
+        resourceBlocking = mergeBlockingStats(resourceBlocking || createBlockingStats(), scrapedContent.blocking);
+      }
 
       // 2. Extraer productos de esta página
-      const products = this.extractorService.extractProductList(scrapedContent.html, config);
+      const extraction = this.extractorService.extractProductListWithReport(scrapedContent.html, config);
+      const { priceFailures } = extraction;
+      if (pageNumber === 1) {
+        missingSelector = extraction.missingSelector;
+      }
+
+      // Completar (o reemplazar si no hubo resultados) con datos estructurados
+      const products = this.structuredDataService.applyToListing(
+        extraction.products,
+        scrapedContent.html,
+        config,
+        currentUrl
+      );
       log.info(`Productos encontrados: ${products.length}`);
 
+      // Primera página sin productos: verificar si en realidad es una página de bloqueo
+      if (products.length === 0 && pageNumber === 1) {
+        this.assertNotBlocked(scrapedContent.html, config, currentUrl);
+      }
+
+      for (const [field, matches] of Object.entries(extraction.selectorMatches)) {
+        selectorMatches[field] = selectorMatches[field] || {};
+        for (const [selector, count] of Object.entries(matches)) {
+          selectorMatches[field][selector] = (selectorMatches[field][selector] || 0) + count;
+        }
+      }
+
+      if (priceFailures.length > 0) {
+        log.warn(`Precios no interpretados: ${priceFailures.length}`);
+        priceParseFailures.push(...priceFailures);
+      }
+
       // 3. Agregar a la lista total
       allProducts.push(...products);
 
       // 4. Si no hay paginación o no queremos más páginas, terminar
-      if (!paginationEnabled) {
+      if (!pagination?.enabled) {
         break;
       }
 
       // 5. Detectar si hay siguiente página
       const paginationInfo = this.paginationService.detectPagination(
         scrapedContent.html,
-        config.scraping.pagination,
+        pagination,
         currentUrl
       );
 
@@ -132,9 +268,6 @@ export class ScraperService {
         log.debug('No hay más páginas');
         break;
       }
-
-      // Pequeña pausa entre páginas para ser respetuosos
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
     // Normalizar todos los productos
@@ -146,16 +279,201 @@ export class ScraperService {
     log.info(`Páginas: ${pageNumber} | Productos: ${allProducts.length}`);
 
     return {
-      success: true,
-      products: normalizedProducts,
-      totalFound: normalizedProducts.length,
-      source: url,
-      timestamp: new Date(),
-      method: 'selector',
-      summary: `Extraídos ${normalizedProducts.length} productos de ${pageNumber} página(s) con selectores CSS`
+      result: {
+        success: true,
+        products: normalizedProducts,
+        totalFound: normalizedProducts.length,
+        source: url,
+        timestamp: new Date(),
+        method: 'selector',
+        priceParseFailures: priceParseFailures.length > 0 ? priceParseFailures : undefined,
+        selectorMatches,
+        resourceBlocking,
+        summary: `Extraídos ${normalizedProducts.length} productos de ${pageNumber} página(s) con selectores CSS`
+      },
+      outcome: this.classifyEmptyResult(normalizedProducts.length, missingSelector),
     };
   }
 
+  /**
+   * Lanza un ScrapeError bot_challenge si el HTML corresponde a una página de bloqueo
+   */
+  private assertNotBlocked(html: string, config: StoreConfig, url: string): void {
+    const reason = detectBotChallenge({ html }, config.scraping.bot_detection);
+    if (reason) {
+      throw new ScrapeError('bot_challenge', `Blocked by bot protection (${reason})`, { url, reason });
+    }
+  }
+
+  /**
+   * Reclasifica una respuesta HTTP de error como bot_challenge si es una página de bloqueo
+   * (códigos configurados como 403/429, o marcadores conocidos en el cuerpo de un 503)
+   */
+  private detectBlockedResponse(error: ScrapeError, config: StoreConfig): ScrapeError {
+    if (error.failureClass !== 'http_4xx' && error.failureClass !== 'http_5xx') {
+      return error;
+    }
+
+    const reason = detectBotChallenge(
+      { html: error.details.body || '', status: error.details.status },
+      config.scraping.bot_detection
+    );
+    if (!reason) {
+      return error;
+    }
+
+    return new ScrapeError('bot_challenge', `Blocked by bot protection (${reason}): ${error.message}`, {
+      ...error.details,
+      reason,
+    });
+  }
+
+  /**
+   * Un listado sin productos no es un error, pero se clasifica para poder reintentarlo
+   * - selector_missing: el contenedor o los items configurados no existen en la página
+   * - empty_results: la página cargó bien pero no trae productos
+   */
+  private classifyEmptyResult(productCount: number, missingSelector?: string): ScrapeAttempt['outcome'] {
+    if (productCount > 0) {
+      return 'success';
+    }
+    return missingSelector ? 'selector_missing' : 'empty_results';
+  }
+
+  /**
+   * Consulta robots.txt y espera el turno del rate limiter del dominio antes de cada request
+   */
+  private async waitForTurn(url: string, config: StoreConfig): Promise<void> {
+    this.politenessService.setContext(config.name);
+    await this.politenessService.beforeRequest(url, config.scraping, config.domain);
+  }
+
+  /**
+   * Descarga una página de listado con el engine configurado
+   * - browser (default): Playwright, necesario para sitios que renderizan con JavaScript
+   * - http: cliente HTTP simple, más rápido y liviano para sitios renderizados en servidor
+   */
+  private async fetchPage(url: string, config: StoreConfig, options?: ScrapeOptions): Promise<ScrapedContent> {
+    await this.waitForTurn(url, config);
+
+    return this.proxyService.run(config.domain, config.scraping.proxy, proxy => {
+      const context = { ...toContextSettings(config.scraping, options?.mobile), proxy };
+
+      if (config.scraping.engine === 'http') {
+        this.httpFetchService.setContext(config.name);
+        return this.httpFetchService.fetchPage(url, { ...context, timeout: options?.timeout });
+      }
+
+      this.playwrightService.setContext(config.name);
+      return this.playwrightService.scrapeUrl(url, {
+        waitTime: options?.waitFor || config.scraping.wait_time,
+        waitForSelectors: config.scraping.wait_for_selectors,
+        scroll: config.scraping.scroll !== false,  // Respetar configuración de scroll
+        context,
+      });
+    });
+  }
+
+  /**
+   * Scraping desde respuestas JSON de la API de la tienda (modo network)
+   * Retorna null si no se capturó ninguna respuesta con productos
+   */
+  private async scrapeWithNetwork(
+    url: string,
+    config: StoreConfig,
+    network: NetworkExtractionConfig,
+    options?: ScrapeOptions,
+    logger?: ReturnType<typeof createContextLogger>
+  ): Promise<AttemptResult | null> {
+    const log = logger || createContextLogger(config.name);
+    const startTime = Date.now();
+    const allProducts: ExtractedProduct[] = [];
+    const priceParseFailures: PriceParseFailure[] = [];
+
+    await this.waitForTurn(url, config);
+    this.playwrightService.setContext(config.name);
+
+    // Las páginas siguientes de la API usan el mismo proxy que la navegación (misma sesión)
+    let sessionProxy: ProxySettings | null = null;
+    const scrapedContent = await this.proxyService.run(config.domain, config.scraping.proxy, proxy => {
+      sessionProxy = proxy;
+      return this.playwrightService.scrapeUrl(url, {
+        waitTime: options?.waitFor || config.scraping.wait_time,
+        captureResponses: { urlPattern: network.url_pattern, timeout: network.wait_timeout },
+        context: { ...toContextSettings(config.scraping, options?.mobile), proxy },
+      });
+    });
+
+    const listings = this.networkExtractorService.findListingResponses(scrapedContent.responses || [], network);
+    if (listings.length === 0) {
+      this.assertNotBlocked(scrapedContent.html, config, url);
+      return null;
+    }
+
+    // La última respuesta corresponde a la búsqueda final (las SPAs pueden disparar varias)
+    let lastResponse = listings[listings.length - 1];
+    let pageNumber = 1;
+    const maxPages = options?.maxPages || network.max_pages || config.scraping.pagination?.max_pages || 1;
+
+    while (pageNumber <= maxPages) {
+      log.info(`Página ${pageNumber} (API)`);
+
+      const extraction = this.networkExtractorService.extractProducts(lastResponse.body, config);
+      log.info(`Productos encontrados: ${extraction.products.length}`);
+
+      if (extraction.priceFailures.length > 0) {
+        log.warn(`Precios no interpretados: ${extraction.priceFailures.length}`);
+        priceParseFailures.push(...extraction.priceFailures);
+      }
+      allProducts.push(...extraction.products);
+
+      if (pageNumber >= maxPages) {
+        break;
+      }
+
+      const nextPage = this.networkExtractorService.getNextPageRequest(lastResponse, network, pageNumber);
+      if (!nextPage) {
+        log.debug('No hay más páginas');
+        break;
+      }
+
+      log.debug(`Siguiente página: ${nextPage.method} ${nextPage.url}`);
+      try {
+        await this.waitForTurn(nextPage.url, config);
+        const body = await this.playwrightService.fetchJson(
+          nextPage,
+          sessionProxy ? { proxy: sessionProxy } : undefined
+        );
+        lastResponse = { ...lastResponse, url: nextPage.url, postData: nextPage.postData, body };
+        pageNumber++;
+      } catch (error) {
+        log.warn(`No se pudo obtener la página ${pageNumber + 1}:`, error);
+        break;
+      }
+    }
+
+    const normalizedProducts = this.extractorService.normalizeProducts(allProducts, url);
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    log.success(`Scraping completado en ${duration}s`);
+    log.info(`Páginas: ${pageNumber} | Productos: ${allProducts.length}`);
+
+    return {
+      result: {
+        success: true,
+        products: normalizedProducts,
+        totalFound: normalizedProducts.length,
+        source: url,
+        timestamp: new Date(),
+        method: 'network',
+        priceParseFailures: priceParseFailures.length > 0 ? priceParseFailures : undefined,
+        resourceBlocking: scrapedContent.blocking,
+        summary: `Extraídos ${normalizedProducts.length} productos de ${pageNumber} página(s) desde la API de la tienda`
+      },
+      outcome: this.classifyEmptyResult(normalizedProducts.length),
+    };
+  }
 
   /**
    * Scrape múltiples URLs en paralelo (más rápido que secuencial)
@@ -1,5 +1,41 @@
 import * as cheerio from 'cheerio';
-import { StoreConfig, ExtractedProduct } from '../types/store-config.types';
+import {
+  StoreConfig,
+  ExtractedProduct,
+  PriceInfo,
+  FieldTransform,
+  SelectorSpec,
+  SelectorAlternative,
+  ProductDetailSelectors,
+} from '../types/store-config.types';
+import { parsePrice, PriceParseFailureReason } from '../utils/price-parser';
+import { applyTransforms } from '../utils/field-transforms';
+import { normalizeAvailability } from '../utils/availability';
+import { toSelectorAlternatives, findFirstMatch, describeSelector, CheerioSelection } from '../utils/selector-alternatives';
+
+/**
+ * Precio que no se pudo interpretar (reportado en vez de descartarse en silencio)
+ */
+export interface PriceParseFailure {
+  field: 'price' | 'regular_price' | 'offer_price';
+  raw: string;
+  reason: PriceParseFailureReason;
+  product_name?: string;
+  url?: string;
+}
+
+/**
+ * Conteo de coincidencias por campo y alternativa de selector
+ * Ej: { price: { "[itemprop='price']": 30, ".price-box .price": 2 } }
+ */
+export type SelectorMatchReport = Record<string, Record<string, number>>;
+
+export interface ProductListExtraction {
+  products: ExtractedProduct[];
+  priceFailures: PriceParseFailure[];
+  selectorMatches: SelectorMatchReport;
+  missingSelector?: 'container' | 'item';   // Selector configurado que no encontró nada en la página
+}
 
 /**
  * Servicio para extraer productos usando selectores CSS configurables
@@ -9,54 +45,182 @@ export class SelectorExtractorService {
    * Extrae productos de un listado usando la configuración de selectores
    */
   extractProductList(html: string, config: StoreConfig): ExtractedProduct[] {
+    return this.extractProductListWithReport(html, config).products;
+  }
+
+  /**
+   * Igual que extractProductList, pero además reporta los precios que no se pudieron parsear
+   * y qué alternativa de cada cadena de selectores encontró valores
+   */
+  extractProductListWithReport(html: string, config: StoreConfig): ProductListExtraction {
     const $ = cheerio.load(html);
     const products: ExtractedProduct[] = [];
+    const priceFailures: PriceParseFailure[] = [];
+    const selectorMatches: SelectorMatchReport = {};
+
+    const recordMatch = (field: string, selector: string | undefined, count: number = 1) => {
+      if (!selector) return;
+      selectorMatches[field] = selectorMatches[field] || {};
+      selectorMatches[field][selector] = (selectorMatches[field][selector] || 0) + count;
+    };
 
     const { product_list } = config;
 
     // Buscar el contenedor de productos
-    const container = $(product_list.container);
-    if (container.length === 0) {
-      console.warn(`⚠️  Contenedor no encontrado: ${product_list.container}`);
-      return [];
+    const container = findFirstMatch($.root(), product_list.container);
+    if (!container) {
+      console.warn(`⚠️  Contenedor no encontrado: ${describeSelector(product_list.container)}`);
+      return { products: [], priceFailures: [], selectorMatches, missingSelector: 'container' };
+    }
+    recordMatch('container', container.selector);
+
+    const items = findFirstMatch(container.elements, product_list.item);
+    if (!items) {
+      console.warn(`⚠️  Productos no encontrados: ${describeSelector(product_list.item)}`);
+      return { products: [], priceFailures: [], selectorMatches, missingSelector: 'item' };
     }
+    recordMatch('item', items.selector, items.elements.length);
 
     // Iterar sobre cada producto
-    container.find(product_list.item).each((index, element) => {
+    items.elements.each((index, element) => {
       const $item = $(element);
 
       try {
+        const itemFailures: Array<Omit<PriceParseFailure, 'product_name' | 'url'>> = [];
+        let detectedCurrency: string | undefined;
+
+        // Lee un campo de texto probando cada alternativa en orden
+        const read = (
+          field: string,
+          spec: SelectorSpec | undefined,
+          attribute: string,
+          transforms?: FieldTransform[]
+        ): string => {
+          const { value, selector } = this.resolveField($item, spec, attribute, transforms);
+          recordMatch(field, selector);
+          return value;
+        };
+
+        // Lee un precio (primera alternativa que se pueda parsear) y registra el fallo
+        // si ninguna alternativa produce un precio válido pero alguna trae texto
+        const readPrice = (
+          field: PriceParseFailure['field'],
+          spec: SelectorSpec | undefined,
+          attribute: string,
+          transforms?: FieldTransform[]
+        ): number => {
+          let failure: Omit<PriceParseFailure, 'product_name' | 'url'> | undefined;
+
+          for (const alternative of toSelectorAlternatives(spec, attribute)) {
+            const raw = this.readAlternative($item, alternative, transforms);
+            const result = parsePrice(raw, config.price_format);
+
+            if (result.ok) {
+              recordMatch(field, alternative.selector);
+              detectedCurrency = detectedCurrency || result.price.currency;
+              return result.price.value;
+            }
+            if (result.reason !== 'empty' && !failure) {
+              failure = { field, raw, reason: result.reason };
+            }
+          }
+
+          if (failure) {
+            itemFailures.push(failure);
+          }
+          return 0;
+        };
+
+        const { selectors } = product_list;
+        const currentPrice = readPrice('price', selectors.price, selectors.price_attribute, selectors.price_transforms);
+
         const product: ExtractedProduct = {
-          url: this.extractAttribute($, $item, product_list.selectors.url, product_list.selectors.url_attribute),
-          product_name: this.extractAttribute($, $item, product_list.selectors.title, product_list.selectors.title_attribute),
-          price: this.extractPrice($, $item, product_list.selectors.price, product_list.selectors.price_attribute),
+          url: read('url', selectors.url, selectors.url_attribute || 'href', selectors.url_transforms),
+          product_name: read('title', selectors.title, selectors.title_attribute, selectors.title_transforms),
+          price: currentPrice,
+          regular_price: currentPrice,
+          on_sale: false,
         };
 
         // Campos opcionales
-        if (product_list.selectors.currency) {
-          product.currency = this.extractAttribute(
-            $, $item,
-            product_list.selectors.currency,
-            product_list.selectors.currency_attribute || 'text'
-          );
-        } else {
-          product.currency = config.currency;
+        const selectedCurrency = selectors.currency
+          ? read('currency', selectors.currency, selectors.currency_attribute || 'text', selectors.currency_transforms)
+          : '';
+        product.currency = selectedCurrency || config.currency;
+
+        if (selectors.image) {
+          product.image = read('image', selectors.image, selectors.image_attribute || 'src', selectors.image_transforms);
         }
 
-        if (product_list.selectors.image) {
-          product.image = this.extractAttribute(
-            $, $item,
-            product_list.selectors.image,
-            product_list.selectors.image_attribute || 'src'
+        if (selectors.availability) {
+          product.availability = read(
+            'availability',
+            selectors.availability,
+            selectors.availability_attribute || 'text',
+            selectors.availability_transforms
           );
         }
+        Object.assign(product, normalizeAvailability(product.availability, config.availability));
 
-        if (product_list.selectors.availability) {
-          product.availability = this.extractAttribute(
-            $, $item,
-            product_list.selectors.availability,
-            product_list.selectors.availability_attribute || 'text'
-          );
+        // Modelo de precio: regular vs oferta
+        const regularPrice = selectors.regular_price
+          ? readPrice('regular_price', selectors.regular_price, selectors.regular_price_attribute || 'text', selectors.regular_price_transforms)
+          : 0;
+        const offerPrice = selectors.offer_price
+          ? readPrice('offer_price', selectors.offer_price, selectors.offer_price_attribute || 'text', selectors.offer_price_transforms)
+          : 0;
+
+        // Moneda detectada en el texto del precio (ej: artículos en USD)
+        if (!selectedCurrency && detectedCurrency) {
+          product.currency = detectedCurrency;
+        }
+
+        if (selectors.offer_badge) {
+          product.offer_badge = read(
+            'offer_badge',
+            selectors.offer_badge,
+            selectors.offer_badge_attribute || 'text',
+            ['trim', ...(selectors.offer_badge_transforms || [])]
+          ) || undefined;
+        }
+
+        const priceInfo = this.buildPriceInfo(currentPrice, regularPrice, offerPrice);
+        Object.assign(product, priceInfo);
+        product.price = priceInfo.sale_price ?? priceInfo.regular_price;
+
+        if (selectors.sku) {
+          product.sku = read(
+            'sku',
+            selectors.sku,
+            selectors.sku_attribute || 'text',
+            this.withRegex(selectors.sku_regex, selectors.sku_transforms)
+          ) || undefined;
+        }
+
+        if (selectors.validity) {
+          product.validity = read(
+            'validity',
+            selectors.validity,
+            selectors.validity_attribute || 'text',
+            ['trim', ...(selectors.validity_transforms || [])]
+          ) || undefined;
+        }
+
+        if (selectors.description) {
+          product.description = read(
+            'description',
+            selectors.description,
+            selectors.description_attribute || 'text',
+            ['trim', ...(selectors.description_transforms || [])]
+          ) || undefined;
+        }
+
+        if (product.product_name) {
+          priceFailures.push(...itemFailures.map(failure => ({
+            ...failure,
+            product_name: product.product_name,
+            url: product.url || undefined,
+          })));
         }
 
         // Validar que tenga al menos nombre y precio
@@ -69,54 +233,174 @@ export class SelectorExtractorService {
     });
 
     console.log(`✅ Extraídos ${products.length} productos usando selectores`);
-    return products;
+    if (priceFailures.length > 0) {
+      console.warn(`⚠️  ${priceFailures.length} precio(s) no se pudieron interpretar`);
+    }
+    this.warnOnFallbacks(config, selectorMatches);
+
+    return { products, priceFailures, selectorMatches };
   }
 
   /**
-   * Extrae un atributo de un elemento usando selector y tipo de atributo
+   * Extrae un campo de la página de detalle (selector sobre todo el documento)
+   * Aplica las mismas cadenas de fallback y transformaciones que el listado
    */
-  private extractAttribute(
-    _$: cheerio.CheerioAPI,
-    $context: cheerio.Cheerio<any>,
-    selector: string,
-    attribute: string
+  extractDetailField(
+    $: cheerio.CheerioAPI,
+    spec: SelectorSpec | undefined,
+    attribute: string = 'text',
+    transforms?: FieldTransform[]
   ): string {
-    const element = $context.find(selector);
-    
-    if (element.length === 0) {
+    return this.resolveField($.root(), spec, attribute, transforms).value;
+  }
+
+  /**
+   * Extrae la marca de la página de detalle
+   * `brand` como selector (o cadena de alternativas) usa brand_attribute + brand_transforms;
+   * el formato antiguo (`selector` + `extraction_method`) se mantiene por compatibilidad
+   */
+  extractDetailBrand($: cheerio.CheerioAPI, detail: ProductDetailSelectors): string {
+    const brandConfig = detail.brand;
+
+    if (!brandConfig) {
       return '';
     }
 
-    if (attribute === 'text') {
-      return element.text().trim();
-    } else if (attribute === 'html') {
-      return element.html()?.trim() || '';
+    if (typeof brandConfig === 'string' || Array.isArray(brandConfig)) {
+      return this.extractDetailField($, brandConfig, detail.brand_attribute || 'text', detail.brand_transforms);
+    }
+
+    // Buscar la fila de la etiqueta en todas las tablas
+    if (brandConfig.extraction_method === 'table_search') {
+      const searchLabel = (brandConfig.search_label || 'Marca').toLowerCase();
+      const row = $('table tr').toArray()
+        .map(element => $(element).find('th, td'))
+        .find(cells => cells.length >= 2 && $(cells[0]).text().trim().toLowerCase().includes(searchLabel));
+      if (row) {
+        return $(row[1]).text().trim();
+      }
+    }
+
+    if (brandConfig.extraction_method === 'regex' && brandConfig.regex_pattern) {
+      const text = $(brandConfig.selector).text().trim();
+      const match = text && text.match(new RegExp(brandConfig.regex_pattern, 'i'));
+      if (match) {
+        return match[1] || match[0];
+      }
+    }
+
+    // Fallback: selector directo
+    return $(brandConfig.selector).text().trim();
+  }
+
+  /**
+   * Combina el atajo `<campo>_regex` con `<campo>_transforms`
+   */
+  withRegex(regex?: string, transforms?: FieldTransform[]): FieldTransform[] | undefined {
+    if (!regex) return transforms;
+    return [{ regex }, ...(transforms || [])];
+  }
+
+  /**
+   * Prueba cada alternativa en orden y retorna el primer valor no vacío
+   * junto con el selector que lo produjo
+   */
+  private resolveField(
+    $context: CheerioSelection,
+    spec: SelectorSpec | undefined,
+    attribute: string,
+    transforms?: FieldTransform[]
+  ): { value: string; selector?: string } {
+    for (const alternative of toSelectorAlternatives(spec, attribute)) {
+      const value = this.readAlternative($context, alternative, transforms);
+      if (value) {
+        return { value, selector: alternative.selector };
+      }
+    }
+
+    return { value: '' };
+  }
+
+  /**
+   * Extrae el atributo de una alternativa y le aplica sus transformaciones
+   * y luego las del campo
+   */
+  private readAlternative(
+    $context: CheerioSelection,
+    alternative: SelectorAlternative & { attribute: string },
+    transforms?: FieldTransform[]
+  ): string {
+    const element = $context.find(alternative.selector);
+
+    let value = '';
+    if (element.length === 0) {
+      value = '';
+    } else if (alternative.attribute === 'text') {
+      value = element.text().trim();
+    } else if (alternative.attribute === 'html') {
+      value = element.html()?.trim() || '';
     } else {
-      return element.attr(attribute)?.trim() || '';
+      value = element.attr(alternative.attribute)?.trim() || '';
     }
+
+    return applyTransforms(applyTransforms(value, alternative.transforms), transforms);
   }
 
   /**
-   * Extrae y parsea el precio
+   * Avisa cuando un campo se resolvió con una alternativa que no es la principal
+   * (señal de que la tienda cambió su HTML)
    */
-  private extractPrice(
-    $: cheerio.CheerioAPI,
-    $context: cheerio.Cheerio<any>,
-    selector: string,
-    attribute: string
-  ): number {
-    const priceStr = this.extractAttribute($, $context, selector, attribute);
-    
-    if (!priceStr) return 0;
+  private warnOnFallbacks(config: StoreConfig, selectorMatches: SelectorMatchReport): void {
+    const { product_list } = config;
+    const selectorsByField: Record<string, unknown> = product_list.selectors;
+
+    for (const [field, matches] of Object.entries(selectorMatches)) {
+      const spec: SelectorSpec | undefined = field === 'container' ? product_list.container
+        : field === 'item' ? product_list.item
+        : selectorsByField[field] as SelectorSpec | undefined;
+      const primary = toSelectorAlternatives(spec)[0]?.selector;
+      const fallbacks = Object.keys(matches).filter(selector => selector !== primary);
+
+      if (fallbacks.length > 0) {
+        console.warn(`⚠️  [${config.name}] Campo "${field}" resuelto con selector alternativo: ${fallbacks.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Construye el modelo de precio a partir de los precios extraídos
+   * - currentPrice: valor del selector `price`
+   * - regularPrice: valor del selector `regular_price` (0 si no aplica)
+   * - offerPrice: valor del selector `offer_price` (0 si no aplica)
+   * Una oferta solo se considera válida si es menor al precio regular: on_sale requiere un
+   * descuento real, una etiqueta de oferta sin descuento solo queda en `offer_badge`
+   */
+  buildPriceInfo(currentPrice: number, regularPrice: number, offerPrice: number): PriceInfo {
+    const regular = regularPrice > 0 ? regularPrice : currentPrice;
+
+    let sale: number | undefined;
+    if (offerPrice > 0) {
+      sale = offerPrice;
+    } else if (regularPrice > 0 && currentPrice > 0) {
+      // `price` es el precio vigente y `regular_price` el tachado
+      sale = currentPrice;
+    }
+
+    // Sin precio regular: la oferta es el único precio conocido
+    if (regular <= 0) {
+      return { regular_price: sale || 0, on_sale: false };
+    }
 
-    // Detectar si es notación científica (ej: 2.499e5, 1.599e5)
-    if (/^\d+\.?\d*e[+-]?\d+$/i.test(priceStr.trim())) {
-      return parseFloat(priceStr) || 0;
+    if (sale === undefined || sale >= regular) {
+      return { regular_price: regular, on_sale: false };
     }
 
-    // Limpiar el precio: quitar símbolos de moneda y separadores, mantener solo dígitos y punto decimal
-    const cleanPrice = priceStr.replace(/[^\d.]/g, '');
-    return parseFloat(cleanPrice) || 0;
+    return {
+      regular_price: regular,
+      sale_price: sale,
+      discount_pct: Math.round((1 - sale / regular) * 100),
+      on_sale: true,
+    };
   }
 
   /**
@@ -148,15 +432,22 @@ export class SelectorExtractorService {
 
   /**
    * Normaliza los productos extraídos
-   * Para búsquedas generales, incluye: url, product_name, price, currency, image
-   * NO incluye: availability (solo para vistas detalladas)
+   * Para búsquedas generales, incluye: url, product_name, price, currency, image,
+   * modelo de precio (regular_price, sale_price, discount_pct, on_sale),
+   * availability_status, offer_badge, sku, validity y description
+   * NO incluye: availability en texto libre (solo para vistas detalladas)
    */
   normalizeProducts(products: ExtractedProduct[], baseUrl: string): ExtractedProduct[] {
     const normalized = products.map(product => {
-      const normalized: any = {
+      const normalized: ExtractedProduct = {
         url: this.makeAbsoluteUrl(product.url, baseUrl),
         product_name: product.product_name.trim(),
         price: Math.round(product.price), // Redondear precios
+        // Modelo de precio (siempre presente)
+        regular_price: Math.round(product.regular_price),
+        on_sale: product.on_sale,
+        // Disponibilidad normalizada (el texto libre queda fuera)
+        availability_status: product.availability_status || 'unknown',
       };
 
       // Agregar campos opcionales si existen (excepto availability)
@@ -168,10 +459,35 @@ export class SelectorExtractorService {
         normalized.image = this.makeAbsoluteUrl(product.image, baseUrl);
       }
 
-      // availability NO se incluye en búsquedas generales
+      if (product.sale_price) {
+        normalized.sale_price = Math.round(product.sale_price);
+        normalized.discount_pct = product.discount_pct;
+      }
+
+      if (product.availability_quantity !== undefined) {
+        normalized.availability_quantity = product.availability_quantity;
+      }
+
+      if (product.offer_badge) {
+        normalized.offer_badge = product.offer_badge;
+      }
+
+      if (product.sku) {
+        normalized.sku = product.sku;
+      }
+
+      if (product.validity) {
+        normalized.validity = product.validity;
+      }
+
+      if (product.description) {
+        normalized.description = product.description;
+      }
+
+      // availability (texto libre) NO se incluye en búsquedas generales
       // Solo se agregaría en endpoints de detalle de producto
 
-      return normalized as ExtractedProduct;
+      return normalized;
     });
 
     // Deduplicar productos por nombre similar + precio similar
@@ -1,19 +1,107 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import * as yaml from 'js-yaml';
-import { StoreConfig } from '../types/store-config.types';
+import { Document, isMap, parseDocument } from 'yaml';
+import { BrowseSearchType, StoreConfig, TaxonomyTerm } from '../types/store-config.types';
+import { StoreConfigIssue, StoreConfigValidation, validateStoreConfig } from '../utils/store-config-schema';
+import { isPlainObject, mergePatch } from '../utils/merge-patch';
+import { renderBrowseUrl, renderSearchUrl, SearchParamValues, SearchUrlResult } from '../utils/search-url';
+
+export interface InvalidStoreReport {
+  store: string;                  // Nombre del archivo sin extensión
+  file: string;
+  errors: StoreConfigIssue[];
+  usingLastGood: boolean;         // Se sigue usando la última versión válida cargada
+}
+
+export interface StoreValidationReport {
+  valid: string[];
+  invalid: InvalidStoreReport[];
+}
+
+export type StoreWriteFailure = 'not_found' | 'conflict' | 'invalid' | 'domain_mismatch';
+
+export type StoreWriteResult =
+  | { ok: true; store: string; file: string; config: StoreConfig | null; backup?: string }
+  | { ok: false; reason: StoreWriteFailure; error: string; errors?: StoreConfigIssue[] };
+
+export type StoreReadResult =
+  | { ok: true; config: unknown }
+  | { ok: false; reason: Extract<StoreWriteFailure, 'not_found' | 'invalid'>; error: string; errors?: StoreConfigIssue[] };
+
+/**
+ * Origen de una recarga:
+ * - watch: cambio detectado en el directorio
+ * - api: escritura desde los endpoints de tiendas
+ * - manual: POST /api/stores/reload
+ */
+export type StoreReloadSource = 'watch' | 'api' | 'manual';
+
+export interface StoreReloadEvent {
+  timestamp: string;
+  store: string;
+  file: string;
+  source: StoreReloadSource;
+  action: 'added' | 'updated' | 'removed' | 'rejected'; // rejected = el archivo nuevo no es válido
+  errors?: StoreConfigIssue[];
+  usingLastGood?: boolean;        // En rejected: la tienda sigue activa con la versión anterior
+}
+
+export interface StoreReloadResult extends StoreValidationReport {
+  events: StoreReloadEvent[];     // Solo archivos que cambiaron
+}
+
+/**
+ * Estado de un archivo de configuración cargado
+ * `config` es la versión en uso: la del archivo si es válida, si no la última válida (o null)
+ */
+interface StoreFileState {
+  file: string;
+  hash: string;
+  validation: StoreConfigValidation;
+  config: StoreConfig | null;
+}
+
+const WATCH_DEBOUNCE_MS = 300;
+const MAX_RELOAD_EVENTS = 50;
+
+// Respaldos de los archivos reemplazados o eliminados por la API (dentro del directorio de configs)
+const BACKUP_DIR = '.backups';
+const MAX_BACKUPS_PER_STORE = Math.max(1, parseInt(process.env.STORE_CONFIG_MAX_BACKUPS || '', 10) || 10);
+const STORE_NAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/i;
+
+// Plantillas base para `extends`: <nombre>.template.yaml junto a los archivos de tiendas
+const TEMPLATE_FILE_PATTERN = /\.template\.(yaml|yml)$/;
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Configuración con las plantillas de `extends` aplicadas
+ * `sources` son los contenidos de las plantillas usadas (para detectar cambios al recargar)
+ */
+interface ResolvedDraft {
+  validation: StoreConfigValidation;
+  sources: string[];
+}
 
 export class StoreConfigService {
   private configCache: Map<string, StoreConfig> = new Map();
+  private stores: Map<string, StoreFileState> = new Map(); // Por archivo (sin extensión)
+  private reloadEvents: StoreReloadEvent[] = [];
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimers: Map<string, NodeJS.Timeout> = new Map();
   private configDir: string;
 
-  constructor() {
+  /**
+   * @param configDir Directorio de las configuraciones (por defecto el de producción o desarrollo)
+   */
+  constructor(configDir?: string) {
     // En producción (Docker), los archivos YAML están en /app/config/stores
     // En desarrollo, están relativos al directorio de servicios
     const productionPath = '/app/config/stores';
     const developmentPath = path.join(__dirname, '../config/stores');
 
-    this.configDir = fs.existsSync(productionPath) ? productionPath : developmentPath;
+    this.configDir = configDir ?? (fs.existsSync(productionPath) ? productionPath : developmentPath);
   }
 
   /**
@@ -31,28 +119,513 @@ export class StoreConfigService {
     
     // Intentar con cada variante
     for (const variant of variants) {
-      const configPath = path.join(this.configDir, `${variant}.yaml`);
-      
-      if (fs.existsSync(configPath)) {
-        try {
-          const fileContents = fs.readFileSync(configPath, 'utf8');
-          const config = yaml.load(fileContents) as StoreConfig;
-          
-          // Guardar en caché con el dominio original
-          this.configCache.set(domain, config);
-          
-          console.log(`✅ Configuración cargada para: ${domain} (usando ${variant}.yaml)`);
-          return config;
-        } catch (error) {
-          console.error(`❌ Error cargando configuración para ${variant}:`, error);
-        }
+      const state = this.getStoreState(variant);
+      if (!state) continue;
+
+      if (!state.config) {
+        console.error(`❌ Configuración inválida para ${variant}, se ignora (ver errores al cargar)`);
+        return null;
       }
+
+      // Guardar en caché con el dominio original
+      this.configCache.set(domain, state.config);
+
+      const version = state.validation.valid ? '' : ', última versión válida';
+      console.log(`✅ Configuración cargada para: ${domain} (usando ${variant}.yaml${version})`);
+      return state.config;
     }
 
     console.warn(`⚠️  No existe configuración para dominio: ${domain} (probadas variantes: ${variants.join(', ')})`);
     return null;
   }
 
+  /**
+   * Valida un YAML de configuración (sin guardarlo)
+   * Los errores de sintaxis YAML se reportan en la raíz
+   */
+  validateYaml(contents: string): StoreConfigValidation {
+    return this.resolveYaml(contents).validation;
+  }
+
+  /**
+   * Valida una configuración ya parseada (sin guardarla), aplicando su `extends`
+   */
+  validateDraft(raw: unknown): StoreConfigValidation {
+    return this.resolveDraft(raw).validation;
+  }
+
+  /**
+   * Contenido del archivo de una tienda tal como está en disco (sin aplicar `extends`)
+   */
+  getRawConfig(domain: string): StoreReadResult {
+    const file = this.findStoreFile(domain);
+    if (!file) {
+      return { ok: false, reason: 'not_found', error: `No existe configuración para el dominio: ${domain}` };
+    }
+
+    try {
+      return { ok: true, config: yaml.load(fs.readFileSync(file, 'utf8')) };
+    } catch (error) {
+      return { ok: false, reason: 'invalid', error: 'Configuración inválida', errors: [invalidYamlIssue(error)] };
+    }
+  }
+
+  /**
+   * Valida todas las configuraciones del directorio
+   */
+  validateAll(): StoreValidationReport {
+    const report: StoreValidationReport = { valid: [], invalid: [] };
+
+    for (const file of this.listConfigFiles()) {
+      const store = this.storeName(file);
+      const state = this.getStoreState(store);
+
+      if (state?.validation.valid) {
+        report.valid.push(store);
+      } else if (state) {
+        report.invalid.push({ store, file, errors: state.validation.errors, usingLastGood: !!state.config });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Reporte de arranque: cantidad de tiendas válidas e inválidas (excluidas de las búsquedas)
+   */
+  logValidationReport(): StoreValidationReport {
+    const report = this.validateAll();
+
+    // Los errores de cada archivo inválido ya se registraron al cargarlo
+    const excluded = report.invalid.filter(({ usingLastGood }) => !usingLastGood).map(({ file }) => file);
+    console.log(
+      `📦 Configuraciones de tiendas: ${report.valid.length} válidas, ${report.invalid.length} inválidas` +
+      (excluded.length > 0 ? ` (excluidas: ${excluded.join(', ')})` : '')
+    );
+
+    return report;
+  }
+
+  /**
+   * Vuelve a leer todos los archivos del directorio
+   * Los que cambiaron se validan y reemplazan; si uno nuevo es inválido se mantiene la última versión válida
+   */
+  reloadAll(source: StoreReloadSource = 'manual'): StoreReloadResult {
+    const onDisk = this.listConfigFiles().map(file => this.storeName(file));
+    const events: StoreReloadEvent[] = [];
+
+    for (const store of new Set([...onDisk, ...this.stores.keys()])) {
+      const event = this.reloadStore(store, source);
+      if (event) events.push(event);
+    }
+
+    return { ...this.validateAll(), events };
+  }
+
+  /**
+   * Observa el directorio de configuraciones y recarga los archivos que cambian
+   * Se desactiva con STORE_CONFIG_WATCH=false (usar POST /api/stores/reload)
+   */
+  startWatching(): boolean {
+    if (this.watcher) return true;
+
+    if (process.env.STORE_CONFIG_WATCH === 'false') {
+      console.log('👀 Recarga automática de configuraciones desactivada (STORE_CONFIG_WATCH=false)');
+      return false;
+    }
+
+    try {
+      this.watcher = fs.watch(this.configDir, (_event, filename) => this.scheduleReload(filename?.toString() || null));
+      this.watcher.on('error', error => {
+        console.error('❌ Error observando configuraciones, se desactiva la recarga automática:', error);
+        this.stopWatching();
+      });
+      // No mantener vivo el proceso solo por el watcher
+      this.watcher.unref();
+      console.log(`👀 Observando cambios en ${this.configDir}`);
+      return true;
+    } catch (error) {
+      console.warn('⚠️  No se pudo observar el directorio de configuraciones:', error);
+      return false;
+    }
+  }
+
+  stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.reloadTimers.forEach(timer => clearTimeout(timer));
+    this.reloadTimers.clear();
+  }
+
+  isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  /**
+   * Últimos eventos de recarga (más recientes al final)
+   */
+  getReloadEvents(): StoreReloadEvent[] {
+    return [...this.reloadEvents];
+  }
+
+  /**
+   * Crea una tienda nueva en `<domain>.yaml`
+   * `source` es el YAML tal como llegó (se guarda sin cambios, con sus comentarios)
+   */
+  createStore(raw: unknown, source?: string): StoreWriteResult {
+    const validation = this.validateDraft(raw);
+    if (!validation.valid) {
+      return { ok: false, reason: 'invalid', error: 'Configuración inválida', errors: validation.errors };
+    }
+
+    const { domain } = validation.config;
+    if (!STORE_NAME_PATTERN.test(domain)) {
+      return { ok: false, reason: 'invalid', error: `Dominio inválido para nombre de archivo: ${domain}` };
+    }
+    // <nombre>.template.yaml es una plantilla de `extends`: la tienda no se cargaría
+    if (TEMPLATE_FILE_PATTERN.test(`${domain}.yaml`)) {
+      return { ok: false, reason: 'invalid', error: `El dominio ${domain} corresponde a un nombre de plantilla` };
+    }
+
+    const existing = this.findStoreFile(domain);
+    if (existing) {
+      return { ok: false, reason: 'conflict', error: `Ya existe configuración para ${domain} (${path.basename(existing)})` };
+    }
+
+    const file = path.join(this.configDir, `${domain}.yaml`);
+    this.writeStoreFile(file, source ?? this.serializeDraft(raw, validation.config));
+    return this.afterWrite(file, validation.config);
+  }
+
+  /**
+   * Reemplaza la configuración completa de una tienda existente
+   * `source` es el YAML tal como llegó (se guarda sin cambios, con sus comentarios)
+   */
+  replaceStore(domain: string, raw: unknown, source?: string): StoreWriteResult {
+    const file = this.findStoreFile(domain);
+    if (!file) {
+      return { ok: false, reason: 'not_found', error: `No existe configuración para el dominio: ${domain}` };
+    }
+
+    const validation = this.validateDraft(raw);
+    if (!validation.valid) {
+      return { ok: false, reason: 'invalid', error: 'Configuración inválida', errors: validation.errors };
+    }
+
+    // El archivo se llama como el dominio: cambiarlo requiere crear una tienda nueva
+    const store = this.storeName(file);
+    if (!this.getDomainVariants(store).includes(validation.config.domain)) {
+      return {
+        ok: false,
+        reason: 'domain_mismatch',
+        error: `El domain de la configuración (${validation.config.domain}) no coincide con ${store}`,
+      };
+    }
+
+    const backup = this.writeStoreFile(file, source ?? this.serializeDraft(raw, validation.config));
+    return this.afterWrite(file, validation.config, backup);
+  }
+
+  /**
+   * Aplica cambios parciales (JSON merge patch: los objetos se combinan,
+   * las listas y valores se reemplazan y `null` elimina la clave)
+   * El patch se aplica sobre el documento YAML, así se conservan los comentarios y el orden
+   */
+  patchStore(domain: string, patch: unknown): StoreWriteResult {
+    const file = this.findStoreFile(domain);
+    if (!file) {
+      return { ok: false, reason: 'not_found', error: `No existe configuración para el dominio: ${domain}` };
+    }
+
+    // Se parte del archivo en disco, aunque hoy no sea válido (el patch puede corregirlo)
+    const document = parseDocument(fs.readFileSync(file, 'utf8'));
+    if (document.errors.length > 0) {
+      return { ok: false, reason: 'invalid', error: 'Configuración inválida', errors: [invalidYamlIssue(document.errors[0])] };
+    }
+
+    if (!isPlainObject(patch) || !isMap(document.contents)) {
+      return this.replaceStore(domain, mergePatch(document.toJS(), patch));
+    }
+
+    applyMergePatch(document, [], patch);
+    return this.replaceStore(domain, document.toJS(), document.toString({ lineWidth: 0, flowCollectionPadding: false }));
+  }
+
+  /**
+   * Elimina la configuración de una tienda (queda un respaldo)
+   */
+  deleteStore(domain: string): StoreWriteResult {
+    const file = this.findStoreFile(domain);
+    if (!file) {
+      return { ok: false, reason: 'not_found', error: `No existe configuración para el dominio: ${domain}` };
+    }
+
+    const backup = this.backupStoreFile(file);
+    fs.unlinkSync(file);
+    return this.afterWrite(file, null, backup);
+  }
+
+  /**
+   * Ruta del archivo de una tienda probando variantes con y sin 'www.' (null si no existe)
+   */
+  private findStoreFile(domain: string): string | null {
+    for (const variant of this.getDomainVariants(domain)) {
+      const file = this.resolveConfigPath(variant);
+      if (file) return file;
+    }
+    return null;
+  }
+
+  private resolveConfigPath(store: string): string | null {
+    // Evita rutas fuera del directorio de configuraciones (ej: "../") y las plantillas
+    if (!STORE_NAME_PATTERN.test(store) || TEMPLATE_FILE_PATTERN.test(`${store}.yaml`)) return null;
+
+    return [`${store}.yaml`, `${store}.yml`]
+      .map(file => path.join(this.configDir, file))
+      .find(file => fs.existsSync(file)) || null;
+  }
+
+  private storeName(file: string): string {
+    return path.basename(file).replace(/\.(yaml|yml)$/, '');
+  }
+
+  /**
+   * Aplica la cadena de plantillas de `extends` (la tienda sobrescribe a la plantilla)
+   * Los objetos se combinan en profundidad, listas y valores se reemplazan y `null` elimina
+   * la clave heredada (mismas reglas que PATCH)
+   */
+  private resolveDraft(raw: unknown): ResolvedDraft {
+    if (!isPlainObject(raw) || raw.extends === undefined) {
+      return { validation: validateStoreConfig(raw), sources: [] };
+    }
+
+    const layers: Array<Record<string, unknown>> = [raw];
+    const sources: string[] = [];
+    const chain: string[] = [];
+    const fail = (message: string): ResolvedDraft => ({
+      validation: { valid: false, errors: [{ path: 'extends', message }] },
+      sources,
+    });
+
+    for (let parent: unknown = raw.extends; parent !== undefined; parent = layers[layers.length - 1].extends) {
+      if (typeof parent !== 'string' || !TEMPLATE_NAME_PATTERN.test(parent)) {
+        return fail(`Nombre de plantilla inválido: ${JSON.stringify(parent)}`);
+      }
+      if (chain.includes(parent)) {
+        return fail(`Herencia circular: ${[...chain, parent].join(' -> ')}`);
+      }
+      chain.push(parent);
+
+      const templateFile = [`${parent}.template.yaml`, `${parent}.template.yml`]
+        .map(name => path.join(this.configDir, name))
+        .find(name => fs.existsSync(name));
+      if (!templateFile) {
+        return fail(`No existe la plantilla "${parent}" (${parent}.template.yaml)`);
+      }
+
+      const contents = fs.readFileSync(templateFile, 'utf8');
+      sources.push(contents);
+
+      let template: unknown;
+      try {
+        template = yaml.load(contents);
+      } catch (error) {
+        return fail(`YAML inválido en ${path.basename(templateFile)}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!isPlainObject(template)) {
+        return fail(`${path.basename(templateFile)} debe ser un objeto`);
+      }
+      layers.push(template);
+    }
+
+    // Desde la plantilla más general hacia la tienda
+    const merged = layers.reverse().reduce<unknown>(
+      (result, layer) => mergePatch(result, { ...layer, extends: null }),
+      {}
+    );
+
+    return {
+      validation: validateStoreConfig({ ...(merged as Record<string, unknown>), extends: raw.extends }),
+      sources,
+    };
+  }
+
+  private resolveYaml(contents: string): ResolvedDraft {
+    let raw: unknown;
+    try {
+      raw = yaml.load(contents);
+    } catch (error) {
+      return { validation: { valid: false, errors: [invalidYamlIssue(error)] }, sources: [] };
+    }
+
+    return this.resolveDraft(raw);
+  }
+
+  /**
+   * YAML de un borrador enviado como objeto (sin resolver `extends`)
+   */
+  private serializeDraft(draft: unknown, config: StoreConfig): string {
+    return `# Configuración para ${config.name} (generado por la API de tiendas)\n` +
+      yaml.dump(draft, { lineWidth: -1, noRefs: true });
+  }
+
+  /**
+   * Escritura atómica: archivo temporal en el mismo directorio + rename
+   * Retorna la ruta del respaldo si el archivo ya existía
+   */
+  private writeStoreFile(file: string, contents: string): string | undefined {
+    const backup = fs.existsSync(file) ? this.backupStoreFile(file) : undefined;
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+      fs.writeFileSync(tempFile, contents, 'utf8');
+      fs.renameSync(tempFile, file);
+    } catch (error) {
+      fs.rmSync(tempFile, { force: true });
+      throw error;
+    }
+
+    return backup;
+  }
+
+  /**
+   * Copia el archivo a `.backups/<archivo>.<timestamp>` y conserva solo los últimos respaldos
+   */
+  private backupStoreFile(file: string): string {
+    const backupDir = path.join(this.configDir, BACKUP_DIR);
+    fs.mkdirSync(backupDir, { recursive: true });
+
+    const baseName = path.basename(file);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backup = path.join(backupDir, `${baseName}.${stamp}`);
+    fs.copyFileSync(file, backup);
+
+    const previous = fs.readdirSync(backupDir)
+      .filter(name => name.startsWith(`${baseName}.`))
+      .sort();
+    previous.slice(0, Math.max(0, previous.length - MAX_BACKUPS_PER_STORE))
+      .forEach(name => fs.rmSync(path.join(backupDir, name), { force: true }));
+
+    return backup;
+  }
+
+  private afterWrite(file: string, config: StoreConfig | null, backup?: string): StoreWriteResult {
+    // Sin reinicio: se recarga ya (el evento del watcher para el mismo contenido se ignora)
+    const store = this.storeName(file);
+    this.reloadStore(store, 'api');
+
+    console.log(`💾 Configuración ${config ? 'guardada' : 'eliminada'}: ${path.basename(file)}${backup ? ` (respaldo: ${path.basename(backup)})` : ''}`);
+    return { ok: true, store, file: path.basename(file), config, backup: backup && path.relative(this.configDir, backup) };
+  }
+
+  /**
+   * Estado cargado de una tienda, leyendo el archivo la primera vez (null si no existe)
+   */
+  private getStoreState(store: string): StoreFileState | null {
+    if (!this.stores.has(store)) {
+      this.reloadStore(store, null);
+    }
+    return this.stores.get(store) || null;
+  }
+
+  /**
+   * Lee, valida y reemplaza el estado de una tienda si su archivo cambió
+   * `source` null = primera carga (no se registra como evento)
+   */
+  private reloadStore(store: string, source: StoreReloadSource | null): StoreReloadEvent | null {
+    const previous = this.stores.get(store);
+    const configPath = this.resolveConfigPath(store);
+
+    if (!configPath) {
+      if (!previous) return null;
+      this.stores.delete(store);
+      this.configCache.clear();
+      return source && this.recordReload({ store, file: path.basename(previous.file), source, action: 'removed' });
+    }
+
+    let contents: string;
+    try {
+      contents = fs.readFileSync(configPath, 'utf8');
+    } catch (error) {
+      // Puede desaparecer entre el evento y la lectura: se resuelve en la próxima recarga
+      console.error(`❌ Error leyendo configuración para ${store}:`, error);
+      return null;
+    }
+
+    // El hash incluye las plantillas: si cambia una, se recargan las tiendas que la usan
+    const { validation, sources } = this.resolveYaml(contents);
+    const hash = crypto.createHash('sha1').update([contents, ...sources].join('\0')).digest('hex');
+    if (previous && previous.hash === hash && previous.file === configPath) {
+      return null;
+    }
+
+    const config = validation.valid ? validation.config : previous?.config || null;
+
+    if (!validation.valid) {
+      console.error(`❌ Configuración inválida en ${path.basename(configPath)}:`);
+      validation.errors.forEach(({ path: issuePath, message }) => console.error(`   - ${issuePath}: ${message}`));
+    }
+
+    // Reemplazo en un solo paso: las lecturas ven la versión anterior o la nueva completa
+    this.stores.set(store, { file: configPath, hash, validation, config });
+    this.configCache.clear();
+
+    if (!source) return null;
+
+    return this.recordReload(validation.valid
+      ? { store, file: path.basename(configPath), source, action: previous ? 'updated' : 'added' }
+      : { store, file: path.basename(configPath), source, action: 'rejected', errors: validation.errors, usingLastGood: !!config });
+  }
+
+  private recordReload(event: Omit<StoreReloadEvent, 'timestamp'>): StoreReloadEvent {
+    const entry: StoreReloadEvent = { timestamp: new Date().toISOString(), ...event };
+
+    this.reloadEvents.push(entry);
+    if (this.reloadEvents.length > MAX_RELOAD_EVENTS) {
+      this.reloadEvents.splice(0, this.reloadEvents.length - MAX_RELOAD_EVENTS);
+    }
+
+    const icon = event.action === 'rejected' ? '⚠️ ' : '🔄';
+    const detail = event.action === 'rejected'
+      ? (event.usingLastGood ? ', se mantiene la última versión válida' : ', tienda excluida')
+      : '';
+    console.log(`${icon} Configuración ${event.file}: ${event.action} (${event.source}${detail})`);
+
+    return entry;
+  }
+
+  /**
+   * Agrupa los eventos del watcher (un guardado suele generar varios) y recarga el archivo
+   */
+  private scheduleReload(filename: string | null): void {
+    // Sin nombre de archivo (algunas plataformas) o si cambió una plantilla se recarga todo el directorio
+    const key = filename === null || TEMPLATE_FILE_PATTERN.test(filename)
+      ? '*'
+      : /\.(yaml|yml)$/.test(filename) ? this.storeName(filename) : null;
+    if (!key) return; // Temporales de escritura atómica, .backups, etc.
+
+    clearTimeout(this.reloadTimers.get(key));
+    const timer = setTimeout(() => {
+      this.reloadTimers.delete(key);
+      if (key === '*') {
+        this.reloadAll('watch');
+      } else {
+        this.reloadStore(key, 'watch');
+      }
+    }, WATCH_DEBOUNCE_MS);
+    timer.unref();
+    this.reloadTimers.set(key, timer);
+  }
+
+  private listConfigFiles(): string[] {
+    if (!fs.existsSync(this.configDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.configDir)
+      .filter(file => (file.endsWith('.yaml') || file.endsWith('.yml')) && !TEMPLATE_FILE_PATTERN.test(file));
+  }
+
   /**
    * Genera variantes del dominio para buscar configuraciones
    * Ej: 'www.example.com' -> ['www.example.com', 'example.com']
@@ -87,26 +660,50 @@ export class StoreConfigService {
 
   /**
    * Genera URL de búsqueda usando el template de la configuración
+   * Retorna null si la tienda no existe o le falta algún parámetro requerido
    */
-  buildSearchUrl(domain: string, query: string): string | null {
+  buildSearchUrl(domain: string, query: string, params: SearchParamValues = {}): string | null {
+    return this.renderSearchUrl(domain, query, params)?.url ?? null;
+  }
+
+  /**
+   * Como buildSearchUrl, pero reporta qué parámetros se aplicaron, ignoraron o faltan
+   */
+  renderSearchUrl(domain: string, query: string, params: SearchParamValues = {}): SearchUrlResult | null {
     const config = this.getConfig(domain);
     if (!config) return null;
 
-    return config.search.url_template.replace('{query}', encodeURIComponent(query));
+    return renderSearchUrl(config.search, { ...params, query });
   }
 
   /**
-   * Lista todas las tiendas configuradas
+   * Genera la URL del listado de una categoría o marca de la taxonomía
+   * Si la tienda no tiene search.category / search.brand (o no mapea el término), el tipo queda en `missing`
    */
-  listAvailableStores(): string[] {
-    if (!fs.existsSync(this.configDir)) {
-      return [];
+  renderBrowseUrl(
+    domain: string,
+    type: BrowseSearchType,
+    term: TaxonomyTerm,
+    params: SearchParamValues = {}
+  ): SearchUrlResult | null {
+    const config = this.getConfig(domain);
+    if (!config) return null;
+
+    const browse = config.search[type];
+    if (!browse) {
+      return { url: null, applied: [], ignored: [], missing: [type] };
     }
+    return renderBrowseUrl(browse, type, term, params);
+  }
 
-    const files = fs.readdirSync(this.configDir);
-    return files
-      .filter(file => file.endsWith('.yaml') || file.endsWith('.yml'))
-      .map(file => file.replace(/\.(yaml|yml)$/, ''));
+  /**
+   * Lista todas las tiendas configuradas
+   * Excluye las inválidas, salvo que tengan una versión válida anterior cargada
+   */
+  listAvailableStores(): string[] {
+    return this.listConfigFiles()
+      .map(file => this.storeName(file))
+      .filter(store => !!this.getStoreState(store)?.config);
   }
 
   /**
@@ -114,6 +711,7 @@ export class StoreConfigService {
    */
   clearCache(): void {
     this.configCache.clear();
+    this.stores.clear();
     console.log('🗑️  Caché de configuraciones limpiado');
   }
 }
@@ -127,3 +725,27 @@ export const getStoreConfigService = (): StoreConfigService => {
   }
   return instance;
 };
+
+/**
+ * Mismo merge patch que mergePatch, aplicado sobre el documento YAML (conserva comentarios y orden de claves)
+ */
+function applyMergePatch(document: Document, basePath: string[], patch: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(patch)) {
+    const keyPath = [...basePath, key];
+    if (value === null) {
+      document.deleteIn(keyPath);
+    } else if (isPlainObject(value) && isMap(document.getIn(keyPath, true))) {
+      applyMergePatch(document, keyPath, value);
+    } else {
+      document.setIn(keyPath, mergePatch(undefined, value));
+    }
+  }
+}
+
+/**
+ * Error de sintaxis YAML con el mismo formato que los errores de validación
+ */
+function invalidYamlIssue(error: unknown): StoreConfigIssue {
+  const message = error instanceof Error ? error.message : String(error);
+  return { path: '(raíz)', message: `YAML inválido: ${message}` };
+}
@@ -0,0 +1,410 @@
+import * as cheerio from 'cheerio';
+import { ExtractedProduct, StoreConfig, StructuredDataMode } from '../types/store-config.types';
+import { parsePrice } from '../utils/price-parser';
+import { normalizeAvailability } from '../utils/availability';
+import { getSelectorExtractorService } from './selector-extractor.service';
+
+/**
+ * Producto leído de datos estructurados (schema.org / OpenGraph)
+ */
+export interface StructuredProduct {
+  name?: string;
+  url?: string;
+  price?: number;
+  currency?: string;
+  availability?: string;   // Valor schema.org sin prefijo (ej: "InStock", "OutOfStock")
+  brand?: string;
+  sku?: string;
+  gtin?: string;
+  images: string[];
+  description?: string;
+  source: 'json-ld' | 'microdata' | 'opengraph';
+}
+
+const GTIN_KEYS = ['gtin', 'gtin13', 'gtin14', 'gtin12', 'gtin8', 'isbn'];
+
+/**
+ * Nodo JSON-LD (objeto con @type, propiedades de schema.org, etc.)
+ */
+type JsonLdNode = Record<string, unknown>;
+
+function isJsonLdNode(value: unknown): value is JsonLdNode {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Servicio para extraer productos de datos estructurados embebidos en el HTML
+ * - JSON-LD (<script type="application/ld+json">), incluyendo @graph e ItemList
+ * - Microdata (itemscope/itemtype schema.org/Product)
+ * - OpenGraph / product:* meta tags (solo página de detalle)
+ */
+export class StructuredDataService {
+  private extractorService = getSelectorExtractorService();
+
+  /**
+   * Extrae todos los productos de una página (listado)
+   * JSON-LD tiene prioridad; microdata se usa si no hay JSON-LD
+   */
+  extractProducts(html: string): StructuredProduct[] {
+    const $ = cheerio.load(html);
+    const jsonLd = this.extractJsonLd($);
+    return jsonLd.length > 0 ? jsonLd : this.extractMicrodata($);
+  }
+
+  /**
+   * Extrae el producto principal de una página de detalle
+   * Combina JSON-LD, microdata y OpenGraph (en ese orden de prioridad)
+   */
+  extractProduct(html: string): StructuredProduct | null {
+    const $ = cheerio.load(html);
+
+    const candidates = [
+      this.extractJsonLd($)[0],
+      this.extractMicrodata($)[0],
+      this.extractOpenGraph($),
+    ].filter((candidate): candidate is StructuredProduct => !!candidate);
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    return candidates.slice(1).reduce(
+      (merged, candidate) => this.fillMissing(merged, candidate),
+      { ...candidates[0], images: [...candidates[0].images] }
+    );
+  }
+
+  /**
+   * Aplica datos estructurados a los productos extraídos con selectores
+   * - fallback: si no hay productos usa los estructurados; si hay, solo completa campos vacíos
+   * - prefer: los valores estructurados sobrescriben a los de selectores
+   */
+  applyToListing(
+    products: ExtractedProduct[],
+    html: string,
+    config: StoreConfig,
+    pageUrl: string
+  ): ExtractedProduct[] {
+    const mode: StructuredDataMode = config.structured_data?.listing || 'fallback';
+    if (mode === 'off') {
+      return products;
+    }
+
+    const structured = this.extractProducts(html);
+    if (structured.length === 0) {
+      return products;
+    }
+
+    if (products.length === 0) {
+      const converted = structured
+        .map(item => this.toExtractedProduct(item, config))
+        .filter((product): product is ExtractedProduct => product !== null);
+
+      if (converted.length > 0) {
+        console.log(`🧩 Usando datos estructurados: ${converted.length} productos`);
+      }
+      return converted;
+    }
+
+    return products.map(product => {
+      const match = this.findMatch(product, structured, pageUrl);
+      return match ? this.mergeIntoExtracted(product, match, mode, config) : product;
+    });
+  }
+
+  /**
+   * Convierte un producto estructurado al formato de extracción de listados
+   */
+  toExtractedProduct(item: StructuredProduct, config: StoreConfig): ExtractedProduct | null {
+    if (!item.name || !item.price || item.price <= 0) {
+      return null;
+    }
+
+    return {
+      url: item.url || '',
+      product_name: item.name,
+      price: item.price,
+      ...this.extractorService.buildPriceInfo(item.price, 0, 0),
+      currency: item.currency || config.currency,
+      image: item.images[0],
+      availability: item.availability,
+      ...normalizeAvailability(item.availability, config.availability),
+      sku: item.sku,
+      description: item.description,
+    };
+  }
+
+  /**
+   * Lee todos los bloques JSON-LD y retorna las entidades Product encontradas
+   */
+  private extractJsonLd($: cheerio.CheerioAPI): StructuredProduct[] {
+    const products: StructuredProduct[] = [];
+
+    $('script[type="application/ld+json"]').each((_, script) => {
+      const content = $(script).contents().text().trim();
+      if (!content) return;
+
+      try {
+        const data = JSON.parse(content);
+        for (const node of this.flattenJsonLd(data)) {
+          if (this.hasType(node, 'Product')) {
+            products.push(this.fromJsonLdProduct(node));
+          }
+        }
+      } catch (error) {
+        console.warn('⚠️  JSON-LD inválido, se ignora');
+      }
+    });
+
+    return products;
+  }
+
+  /**
+   * Recorre arrays, @graph e ItemList para obtener todos los nodos
+   */
+  private flattenJsonLd(data: unknown): JsonLdNode[] {
+    if (Array.isArray(data)) return data.flatMap(item => this.flattenJsonLd(item));
+    if (!isJsonLdNode(data)) return [];
+
+    const nodes: JsonLdNode[] = [data];
+
+    if (Array.isArray(data['@graph'])) {
+      nodes.push(...this.flattenJsonLd(data['@graph']));
+    }
+
+    if (this.hasType(data, 'ItemList') && Array.isArray(data.itemListElement)) {
+      for (const element of data.itemListElement) {
+        // ListItem { item: Product } o directamente Product
+        nodes.push(...this.flattenJsonLd(isJsonLdNode(element) ? element.item ?? element : element));
+      }
+    }
+
+    return nodes;
+  }
+
+  private fromJsonLdProduct(node: JsonLdNode): StructuredProduct {
+    const rawOffers = Array.isArray(node.offers) ? node.offers[0] : node.offers;
+    const offers = isJsonLdNode(rawOffers) ? rawOffers : undefined;
+    const priceSpecification = isJsonLdNode(offers?.priceSpecification) ? offers?.priceSpecification as JsonLdNode : undefined;
+    const rawPrice = offers?.price ?? offers?.lowPrice ?? priceSpecification?.price;
+
+    return {
+      name: this.asText(node.name),
+      url: this.asText(node.url) || this.asText(offers?.url),
+      price: this.toPrice(rawPrice),
+      currency: this.asText(offers?.priceCurrency ?? priceSpecification?.priceCurrency),
+      availability: this.stripSchemaPrefix(this.asText(offers?.availability)),
+      brand: this.asText(isJsonLdNode(node.brand) ? node.brand.name : node.brand),
+      sku: this.asText(node.sku ?? node.mpn),
+      gtin: this.asText(GTIN_KEYS.map(key => node[key]).find(value => value)),
+      images: this.asImageList(node.image),
+      description: this.asText(node.description),
+      source: 'json-ld',
+    };
+  }
+
+  /**
+   * Lee entidades Product marcadas con microdata
+   */
+  private extractMicrodata($: cheerio.CheerioAPI): StructuredProduct[] {
+    const products: StructuredProduct[] = [];
+
+    $('[itemscope][itemtype*="schema.org/Product"]').each((_, element) => {
+      const $product = $(element);
+      // Solo propiedades del producto o de su oferta (no de marca, reseñas, etc.)
+      const prop = (name: string): string | undefined => {
+        const $prop = $product.find(`[itemprop="${name}"]`).filter((_, el) => {
+          const scope = $(el).parent().closest('[itemscope]');
+          return scope.is($product) || scope.is('[itemprop="offers"]');
+        }).first();
+        if ($prop.length === 0) return undefined;
+        return (
+          $prop.attr('content') ||
+          $prop.attr('href') ||
+          $prop.attr('src') ||
+          $prop.text()
+        )?.trim() || undefined;
+      };
+
+      const images = $product.find('[itemprop="image"]')
+        .map((_, image) => $(image).attr('content') || $(image).attr('src') || $(image).attr('href'))
+        .get()
+        .filter(Boolean);
+
+      const $brand = $product.find('[itemprop="brand"]').first();
+      const brand = $brand.find('[itemprop="name"]').first().text().trim() ||
+        $brand.attr('content') ||
+        $brand.text().trim() ||
+        undefined;
+
+      products.push({
+        name: prop('name'),
+        url: prop('url'),
+        price: this.toPrice(prop('price') ?? prop('lowPrice')),
+        currency: prop('priceCurrency'),
+        availability: this.stripSchemaPrefix(prop('availability')),
+        brand,
+        sku: prop('sku') ?? prop('mpn'),
+        gtin: GTIN_KEYS.map(key => prop(key)).find(value => value),
+        images,
+        description: prop('description'),
+        source: 'microdata',
+      });
+    });
+
+    return products;
+  }
+
+  /**
+   * Lee meta tags OpenGraph y product:* (Facebook/Pinterest)
+   */
+  private extractOpenGraph($: cheerio.CheerioAPI): StructuredProduct | null {
+    const meta = (...names: string[]): string | undefined => {
+      for (const name of names) {
+        const value = $(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content')?.trim();
+        if (value) return value;
+      }
+      return undefined;
+    };
+
+    const name = meta('og:title');
+    const price = this.toPrice(meta('product:price:amount', 'og:price:amount'));
+
+    if (!name && !price) {
+      return null;
+    }
+
+    return {
+      name,
+      url: meta('og:url'),
+      price,
+      currency: meta('product:price:currency', 'og:price:currency'),
+      availability: this.stripSchemaPrefix(meta('product:availability', 'og:availability')),
+      brand: meta('product:brand', 'og:brand'),
+      sku: meta('product:retailer_item_id'),
+      images: $('meta[property="og:image"]').map((_, tag) => $(tag).attr('content')).get().filter(Boolean),
+      description: meta('og:description', 'description'),
+      source: 'opengraph',
+    };
+  }
+
+  /**
+   * Busca el producto estructurado correspondiente por URL o por nombre
+   */
+  private findMatch(product: ExtractedProduct, structured: StructuredProduct[], pageUrl: string): StructuredProduct | undefined {
+    const productUrl = product.url ? this.normalizeUrl(this.extractorService.makeAbsoluteUrl(product.url, pageUrl)) : '';
+    const productName = product.product_name.toLowerCase().trim();
+
+    return structured.find(item =>
+      (productUrl && item.url && this.normalizeUrl(this.extractorService.makeAbsoluteUrl(item.url, pageUrl)) === productUrl) ||
+      (item.name && item.name.toLowerCase().trim() === productName)
+    );
+  }
+
+  private mergeIntoExtracted(
+    product: ExtractedProduct,
+    item: StructuredProduct,
+    mode: StructuredDataMode,
+    config: StoreConfig
+  ): ExtractedProduct {
+    const prefer = mode === 'prefer';
+    const pick = <T>(current: T | undefined, structured: T | undefined): T | undefined =>
+      prefer ? structured || current : current || structured;
+
+    const merged: ExtractedProduct = {
+      ...product,
+      image: pick(product.image, item.images[0]),
+      availability: pick(product.availability, item.availability),
+      sku: pick(product.sku, item.sku),
+      description: pick(product.description, item.description),
+    };
+
+    if (merged.availability !== product.availability) {
+      Object.assign(merged, normalizeAvailability(merged.availability, config.availability));
+    }
+
+    if (item.currency && (prefer || !product.currency)) {
+      merged.currency = item.currency;
+    }
+
+    // El precio estructurado solo reemplaza si no hay precio o si se prefiere
+    if (item.price && (prefer || product.price <= 0)) {
+      Object.assign(merged, this.extractorService.buildPriceInfo(item.price, 0, 0));
+      merged.price = item.price;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Completa campos vacíos de `base` con los de `extra`
+   */
+  private fillMissing(base: StructuredProduct, extra: StructuredProduct): StructuredProduct {
+    return {
+      ...base,
+      name: base.name || extra.name,
+      url: base.url || extra.url,
+      price: base.price || extra.price,
+      currency: base.currency || extra.currency,
+      availability: base.availability || extra.availability,
+      brand: base.brand || extra.brand,
+      sku: base.sku || extra.sku,
+      gtin: base.gtin || extra.gtin,
+      images: base.images.length > 0 ? base.images : extra.images,
+      description: base.description || extra.description,
+    };
+  }
+
+  private hasType(node: JsonLdNode, type: string): boolean {
+    const types: unknown[] = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    return types.some((value: unknown) => typeof value === 'string' && value.toLowerCase() === type.toLowerCase());
+  }
+
+  /**
+   * Los precios de schema.org usan punto decimal ("49950.00")
+   */
+  private toPrice(value: unknown): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'number') return value > 0 ? value : undefined;
+
+    const result = parsePrice(String(value), { decimal_separator: '.' });
+    return result.ok ? result.price.value : undefined;
+  }
+
+  /**
+   * "https://schema.org/InStock" -> "InStock"
+   */
+  private stripSchemaPrefix(value?: string): string | undefined {
+    if (!value) return undefined;
+    return value.replace(/^https?:\/\/schema\.org\//i, '').trim() || undefined;
+  }
+
+  private asText(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value)) return this.asText(value[0]);
+    if (typeof value === 'object') return undefined;
+    return String(value).trim() || undefined;
+  }
+
+  private asImageList(value: unknown): string[] {
+    if (!value) return [];
+    const list = Array.isArray(value) ? value : [value];
+    return list
+      .map(image => (isJsonLdNode(image) ? image.url || image.contentUrl : image))
+      .filter((image): image is string => typeof image === 'string' && image.length > 0);
+  }
+
+  private normalizeUrl(url: string): string {
+    return url.replace(/[?#].*$/, '').replace(/\/$/, '').toLowerCase();
+  }
+}
+
+// Singleton
+let instance: StructuredDataService | null = null;
+
+export const getStructuredDataService = (): StructuredDataService => {
+  if (!instance) {
+    instance = new StructuredDataService();
+  }
+  return instance;
+};
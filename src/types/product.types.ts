@@ -1,8 +1,22 @@
+import { AvailabilityStatus } from './store-config.types';
+
 // Formato simple para búsqueda general
 export interface SimpleProduct {
   url: string;
-  price: number;
+  price: number;          // Precio efectivo (el de oferta si aplica)
   product_name: string;
+  currency?: string;
+  image?: string;
+  regular_price?: number;
+  sale_price?: number;
+  discount_pct?: number;  // Porcentaje de descuento (0-100)
+  on_sale?: boolean;
+  availability_status?: AvailabilityStatus;
+  availability_quantity?: number;
+  offer_badge?: string;
+  sku?: string;
+  validity?: string;      // Vigencia de la promoción
+  description?: string;
 }
 
 // Formato detallado para producto específico
@@ -0,0 +1,103 @@
+/**
+ * Normalización de disponibilidad a un estado común entre tiendas
+ * Ej: "Consultar disponibilidad" -> unknown, "https://schema.org/InStock" -> in_stock,
+ *     "Quedan 2 unidades" -> low_stock (quantity: 2)
+ */
+
+import { AvailabilityConfig, AvailabilityRule, AvailabilityStatus } from '../types/store-config.types';
+
+export const AVAILABILITY_STATUSES: AvailabilityStatus[] = [
+  'in_stock',
+  'low_stock',
+  'out_of_stock',
+  'preorder',
+  'unknown',
+];
+
+export interface NormalizedAvailability {
+  availability_status: AvailabilityStatus;
+  availability_quantity?: number;
+}
+
+/**
+ * Reglas por defecto (se evalúan después de las reglas de la tienda)
+ * El orden importa: "no disponible" debe evaluarse antes que "disponible"
+ */
+const DEFAULT_RULES: AvailabilityRule[] = [
+  { match: '\\b(out ?of ?stock|sold ?out|discontinued)\\b', status: 'out_of_stock' },
+  { match: 'agotado|sin (stock|existencias?|inventario)|no disponible|fuera de stock', status: 'out_of_stock' },
+  { match: '\\b(pre ?order|back ?order)\\b|preventa|pre-?orden|bajo pedido|por encargo', status: 'preorder' },
+  { match: '\\blimited ?availability\\b|[úu]ltimas? (\\d+ )?unidad|pocas unidades', status: 'low_stock' },
+  { match: '\\b(in ?stock|online ?only|in ?store ?only)\\b', status: 'in_stock' },
+  { match: 'disponible|en (stock|existencia|inventario)|agregar al carrito|añadir al carrito', status: 'in_stock' },
+  { match: 'consultar', status: 'unknown' },
+];
+
+const QUANTITY_REGEX = /(\d+)\s*(unidades|unidad|unid\.?|disponibles?|en stock|in stock|items?|pzas?|piezas?)/i;
+
+/**
+ * Convierte un texto libre de disponibilidad en un estado normalizado
+ */
+export function normalizeAvailability(raw: string | undefined, config: AvailabilityConfig = {}): NormalizedAvailability {
+  const text = (raw || '').replace(/\s+/g, ' ').trim();
+
+  if (!text) {
+    return { availability_status: config.default_status || 'unknown' };
+  }
+
+  const rules = [...(config.rules || []), ...DEFAULT_RULES];
+  let status: AvailabilityStatus | undefined;
+  let quantity: number | undefined;
+
+  for (const rule of rules) {
+    const match = safeMatch(text, rule.match);
+    if (!match) continue;
+
+    status = rule.status;
+    if (rule.quantity_group !== undefined && match[rule.quantity_group]) {
+      quantity = parseInt(match[rule.quantity_group], 10);
+    }
+    break;
+  }
+
+  if (quantity === undefined) {
+    const quantityMatch = text.match(QUANTITY_REGEX);
+    if (quantityMatch) {
+      quantity = parseInt(quantityMatch[1], 10);
+    }
+  }
+
+  // La cantidad manda sobre el texto: 0 es agotado y bajo el umbral es stock bajo
+  if (quantity !== undefined && !isNaN(quantity)) {
+    if (quantity === 0) {
+      status = 'out_of_stock';
+    } else if (config.low_stock_threshold !== undefined && quantity <= config.low_stock_threshold) {
+      status = 'low_stock';
+    } else if (!status || status === 'unknown') {
+      status = 'in_stock';
+    }
+  } else {
+    quantity = undefined;
+  }
+
+  return {
+    availability_status: status || config.default_status || 'unknown',
+    ...(quantity !== undefined && { availability_quantity: quantity }),
+  };
+}
+
+/**
+ * Indica si un valor es un estado de disponibilidad válido
+ */
+export function isAvailabilityStatus(value: unknown): value is AvailabilityStatus {
+  return typeof value === 'string' && (AVAILABILITY_STATUSES as string[]).includes(value);
+}
+
+function safeMatch(text: string, pattern: string): RegExpMatchArray | null {
+  try {
+    return text.match(new RegExp(pattern, 'i'));
+  } catch (error) {
+    console.warn(`⚠️  Regex de disponibilidad inválido: ${pattern}`, error);
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Detección de páginas de bloqueo (verificación anti-bot, captcha, acceso denegado)
+ * Permite distinguir "la tienda no tiene productos" de "la tienda nos bloqueó"
+ *
+ *   bot_detection:
+ *     markers: ["Verificando su navegador"]
+ *     title_patterns: ["^Acceso restringido"]
+ *     status_codes: [403, 429]
+ */
+
+import * as cheerio from 'cheerio';
+import { BotDetectionConfig } from '../types/store-config.types';
+
+export interface BotChallengePage {
+  html: string;
+  status?: number;
+}
+
+interface ChallengeMarker {
+  name: string;
+  pattern: RegExp;
+}
+
+const DEFAULT_STATUS_CODES = [403, 429];
+
+// Marcadores en el HTML de páginas de bloqueo conocidas
+const DEFAULT_MARKERS: ChallengeMarker[] = [
+  { name: 'cloudflare', pattern: /cf-browser-verification|cf_chl_opt|\/cdn-cgi\/challenge-platform|cf-error-details/i },
+  { name: 'akamai', pattern: /Reference&#32;&#35;[\d.a-f]+|You don't have permission to access .* on this server/i },
+  { name: 'incapsula', pattern: /Incapsula incident ID|_Incapsula_Resource/i },
+  { name: 'perimeterx', pattern: /px-captcha|perimeterx/i },
+  { name: 'datadome', pattern: /captcha-delivery\.com|geo\.captcha-delivery/i },
+  { name: 'captcha', pattern: /class="[^"]*\b(g-recaptcha|h-captcha|cf-turnstile)\b/i },
+];
+
+// Títulos típicos de páginas de bloqueo
+const DEFAULT_TITLES: ChallengeMarker[] = [
+  { name: 'cloudflare', pattern: /^(Just a moment|Attention Required!|Un momento)/i },
+  { name: 'access_denied', pattern: /access denied|acceso denegado|forbidden|request blocked|solicitud bloqueada/i },
+  { name: 'captcha', pattern: /captcha|are you a (robot|human)|verifica(ción|ndo)/i },
+];
+
+/**
+ * Retorna el motivo del bloqueo (ej: "status_403", "cloudflare") o null si la página parece normal
+ * Los marcadores de captcha también aparecen en páginas normales (login, newsletter), por eso
+ * solo se debe llamar cuando la página no produjo productos o respondió con error
+ */
+export function detectBotChallenge(page: BotChallengePage, config: BotDetectionConfig = {}): string | null {
+  const statusCodes = config.status_codes || DEFAULT_STATUS_CODES;
+  if (page.status && statusCodes.includes(page.status)) {
+    return `status_${page.status}`;
+  }
+
+  if (!page.html) {
+    return null;
+  }
+
+  const useDefaults = config.default_markers !== false;
+  const markers = [
+    ...(config.markers || []).map(toCustomMarker).filter(isMarker),
+    ...(useDefaults ? DEFAULT_MARKERS : []),
+  ];
+  const titles = [
+    ...(config.title_patterns || []).map(toCustomMarker).filter(isMarker),
+    ...(useDefaults ? DEFAULT_TITLES : []),
+  ];
+
+  const title = cheerio.load(page.html)('title').first().text().trim();
+  const titleMatch = title ? titles.find(marker => marker.pattern.test(title)) : undefined;
+  if (titleMatch) {
+    return titleMatch.name;
+  }
+
+  return markers.find(marker => marker.pattern.test(page.html))?.name || null;
+}
+
+function toCustomMarker(pattern: string): ChallengeMarker | null {
+  try {
+    return { name: 'custom', pattern: new RegExp(pattern, 'i') };
+  } catch (error) {
+    console.warn(`⚠️  Regex de detección de bloqueo inválido: ${pattern}`, error);
+    return null;
+  }
+}
+
+function isMarker(marker: ChallengeMarker | null): marker is ChallengeMarker {
+  return marker !== null;
+}
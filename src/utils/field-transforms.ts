@@ -0,0 +1,193 @@
+/**
+ * Pipeline declarativo de transformaciones para valores extraídos con selectores
+ * Se configura por campo en el YAML con la clave `<campo>_transforms`:
+ *
+ *   availability: "button[data-item]"
+ *   availability_attribute: "data-item"
+ *   availability_transforms:
+ *     - json_path: "availability"
+ *     - lowercase
+ *     - map: { "in stock": "in_stock", "out of stock": "out_of_stock" }
+ *     - default: "unknown"
+ */
+
+import { FieldTransform } from '../types/store-config.types';
+
+type TransformValue = string | string[] | undefined;
+
+/**
+ * Aplica una cadena de transformaciones y retorna el valor final como texto
+ * Retorna '' si el resultado queda vacío
+ */
+export function applyTransforms(value: string, transforms?: FieldTransform[]): string {
+  if (!transforms || transforms.length === 0) {
+    return value;
+  }
+
+  let current: TransformValue = value;
+
+  for (const transform of transforms) {
+    current = applyTransform(current, transform);
+  }
+
+  if (Array.isArray(current)) {
+    return current.join(' ').trim();
+  }
+
+  return current ?? '';
+}
+
+function applyTransform(value: TransformValue, transform: FieldTransform): TransformValue {
+  if (typeof transform === 'string') {
+    switch (transform) {
+      case 'trim':
+        return mapValue(value, v => v.replace(/\s+/g, ' ').trim());
+      case 'lowercase':
+        return mapValue(value, v => v.toLowerCase());
+      case 'uppercase':
+        return mapValue(value, v => v.toUpperCase());
+      default:
+        console.warn(`⚠️  Transformación desconocida: ${transform}`);
+        return value;
+    }
+  }
+
+  if ('regex' in transform) {
+    return mapValue(value, v => regexCapture(v, transform.regex, transform.group, transform.flags));
+  }
+
+  if ('json_path' in transform) {
+    return mapValue(value, v => jsonPath(v, transform.json_path));
+  }
+
+  if ('split' in transform) {
+    if (value === undefined) return undefined;
+    const parts = (Array.isArray(value) ? value : [value])
+      .flatMap(v => v.split(transform.split))
+      .map(v => v.trim())
+      .filter(v => v.length > 0);
+
+    if (transform.index === undefined) return parts;
+    const index = transform.index < 0 ? parts.length + transform.index : transform.index;
+    return parts[index];
+  }
+
+  if ('join' in transform) {
+    return Array.isArray(value) ? value.join(transform.join) : value;
+  }
+
+  if ('replace' in transform) {
+    return mapValue(value, v => {
+      try {
+        return v.replace(new RegExp(transform.replace, 'g'), transform.with ?? '');
+      } catch (error) {
+        console.warn(`⚠️  Regex inválido: ${transform.replace}`, error);
+        return v;
+      }
+    });
+  }
+
+  if ('map' in transform) {
+    return mapValue(value, v => mapToEnum(v, transform.map, transform.fallback));
+  }
+
+  if ('default' in transform) {
+    const isEmpty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    return isEmpty ? transform.default : value;
+  }
+
+  console.warn('⚠️  Transformación desconocida:', transform);
+  return value;
+}
+
+/**
+ * Aplica una función a un valor simple o a cada elemento de una lista
+ */
+function mapValue(value: TransformValue, fn: (v: string) => string | string[] | undefined): TransformValue {
+  if (value === undefined) return undefined;
+
+  if (Array.isArray(value)) {
+    return value
+      .map(v => fn(v))
+      .flat()
+      .filter((v): v is string => v !== undefined && v !== '');
+  }
+
+  return fn(value);
+}
+
+/**
+ * Retorna el grupo de captura indicado (por defecto 1, o el match completo si no hay grupos)
+ */
+function regexCapture(value: string, pattern: string, group?: number, flags: string = 'i'): string | undefined {
+  try {
+    const match = value.match(new RegExp(pattern, flags));
+    if (!match) return undefined;
+
+    const captured = group !== undefined ? match[group] : (match[1] ?? match[0]);
+    return captured?.trim();
+  } catch (error) {
+    console.warn(`⚠️  Regex inválido: ${pattern}`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Navega un JSON con rutas tipo "a.b[0].c" o "a.b.0.c"
+ * Los objetos se retornan serializados y las listas de primitivos como lista
+ */
+function jsonPath(value: string, path: string): string | string[] | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+
+  data = resolveJsonPath(data, path);
+  if (data === null || data === undefined) return undefined;
+
+  if (Array.isArray(data)) {
+    return data.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item)));
+  }
+
+  return typeof data === 'object' ? JSON.stringify(data) : String(data);
+}
+
+/**
+ * Retorna el valor en la ruta indicada de un objeto ya parseado
+ * Una ruta vacía retorna el propio objeto
+ */
+export function resolveJsonPath(data: unknown, path: string): unknown {
+  const keys = path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(key => key.length > 0);
+
+  for (const key of keys) {
+    if (data === null || data === undefined || typeof data !== 'object') {
+      return undefined;
+    }
+    data = (data as Record<string, unknown>)[key];
+  }
+
+  return data;
+}
+
+/**
+ * Mapea un valor libre a un valor normalizado
+ * Busca primero coincidencia exacta (sin mayúsculas) y luego por contenido
+ */
+function mapToEnum(value: string, map: Record<string, string>, fallback?: string): string {
+  const normalized = value.toLowerCase().trim();
+
+  for (const [key, mapped] of Object.entries(map)) {
+    if (key.toLowerCase() === normalized) return mapped;
+  }
+
+  for (const [key, mapped] of Object.entries(map)) {
+    if (normalized.includes(key.toLowerCase())) return mapped;
+  }
+
+  return fallback ?? value;
+}
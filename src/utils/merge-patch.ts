@@ -0,0 +1,31 @@
+/**
+ * JSON merge patch (RFC 7386) sobre configuraciones parseadas
+ * Lo usan PATCH /api/stores/:domain y la resolución de `extends`:
+ *
+ *   mergePatch({ scraping: { timeout: 30000, wait_time: 2000 } }, { scraping: { timeout: null } })
+ *   // => { scraping: { wait_time: 2000 } }
+ */
+
+/**
+ * Aplica `patch` sobre `target` sin modificar ninguno de los dos
+ * Los objetos se combinan en profundidad, listas y valores se reemplazan y `null` elimina la clave
+ */
+export function mergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,223 @@
+/**
+ * Parser de precios con soporte de formatos regionales
+ * Ej: "₡1.234,50", "¢113,500.00iva", "desde ₡12.900", "2 x ₡5000", "$25.99", "1.599e5"
+ */
+
+import { PriceFormatConfig } from '../types/store-config.types';
+
+export type PriceParseFailureReason =
+  | 'empty'          // El selector no devolvió texto
+  | 'no_number'      // El texto no contiene ningún número
+  | 'range_rejected' // Es un rango y la tienda está configurada con range: reject
+  | 'invalid_number'; // El número resultante no es válido o es <= 0
+
+export interface ParsedPrice {
+  value: number;
+  currency?: string;    // Moneda detectada por símbolo (ej: USD si viene con "$")
+  quantity?: number;    // Cantidad en promociones "2 x ₡5000"
+  isRange?: boolean;    // El texto contenía un rango ("desde", "₡10 - ₡20")
+}
+
+export type PriceParseResult =
+  | { ok: true; price: ParsedPrice }
+  | { ok: false; reason: PriceParseFailureReason };
+
+/**
+ * Símbolos de moneda reconocidos por defecto
+ * Se pueden extender/sobrescribir con price_format.currency_symbols
+ */
+const DEFAULT_CURRENCY_SYMBOLS: Record<string, string> = {
+  '₡': 'CRC',
+  '¢': 'CRC',
+  'CRC': 'CRC',
+  'US$': 'USD',
+  'USD': 'USD',
+  '$': 'USD',
+};
+
+const RANGE_PREFIX_REGEX = /\b(desde|a partir de|from|hasta)\b/i;
+const RANGE_SEPARATOR_REGEX = /^\s*(?:[-–—]|a|hasta|to)\s*$/i;
+const MULTI_BUY_REGEX = /^\s*(\d+)\s*[x×]\s*(?=\D*\d)/i;
+const SCIENTIFIC_REGEX = /^\d+\.?\d*e[+-]?\d+$/i;
+const NUMBER_TOKEN_REGEX = /\d(?:[\d.,]*\d)?/g;
+const SPACE_THOUSANDS_REGEX = /\b\d{1,3}(?: \d{3})+(?!\d)/g;
+
+interface PriceToken {
+  value: number;
+  start: number;
+  end: number;
+  prefixed: boolean;  // Va precedido por un símbolo de moneda ("₡12.900", "USD 25")
+}
+
+/**
+ * Parsea un texto de precio según el formato de la tienda
+ *
+ * Solo se considera rango si hay un marcador explícito ("desde", "hasta", "₡10 - 20", "10 a 20")
+ * o dos montos con símbolo de moneda; si no, se toma el primer monto con símbolo
+ * (o el primer número si ninguno lo tiene). Así "₡12.900 IVA 13%" es 12900, no un rango.
+ */
+export function parsePrice(raw: string, format: PriceFormatConfig = {}): PriceParseResult {
+  let text = (raw || '').replace(/\u00a0/g, ' ').trim();
+
+  if (!text) {
+    return { ok: false, reason: 'empty' };
+  }
+
+  // Notación científica (ej: data-value="1.599e5" en Novex)
+  if (SCIENTIFIC_REGEX.test(text)) {
+    const value = parseFloat(text);
+    return value > 0 ? { ok: true, price: { value } } : { ok: false, reason: 'invalid_number' };
+  }
+
+  const currencySymbols = { ...DEFAULT_CURRENCY_SYMBOLS, ...format.currency_symbols };
+  const currency = detectCurrency(text, currencySymbols);
+
+  // Promociones "2 x ₡5000"
+  let quantity: number | undefined;
+  const multiBuy = text.match(MULTI_BUY_REGEX);
+  if (multiBuy) {
+    quantity = parseInt(multiBuy[1], 10);
+    text = text.slice(multiBuy[0].length);
+  }
+
+  // Separador de miles con espacio ("1 234 500"), salvo que la tienda use otro
+  if (!format.thousands_separator || format.thousands_separator === ' ') {
+    text = text.replace(SPACE_THOUSANDS_REGEX, group => group.replace(/ /g, ''));
+  }
+
+  const tokens: PriceToken[] = Array.from(text.matchAll(NUMBER_TOKEN_REGEX), match => ({
+    value: parseNumber(match[0], format),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    prefixed: endsWithCurrencySymbol(text.slice(0, match.index), currencySymbols),
+  }));
+  if (tokens.length === 0) {
+    return { ok: false, reason: 'no_number' };
+  }
+
+  const valid = tokens.filter(token => !isNaN(token.value) && token.value > 0);
+  if (valid.length === 0) {
+    return { ok: false, reason: 'invalid_number' };
+  }
+
+  const prefixed = valid.filter(token => token.prefixed);
+  let amounts: PriceToken[];
+  if (prefixed.length > 1) {
+    amounts = prefixed;
+  } else if (valid.length > 1 && RANGE_SEPARATOR_REGEX.test(text.slice(valid[0].end, valid[1].start))) {
+    amounts = valid.slice(0, 2);
+  } else {
+    amounts = [prefixed[0] || valid[0]];
+  }
+
+  const values = amounts.map(token => token.value);
+  const isRange = values.length > 1 || RANGE_PREFIX_REGEX.test(text);
+  let value = values[0];
+
+  if (values.length > 1) {
+    switch (format.range || 'min') {
+      case 'reject':
+        return { ok: false, reason: 'range_rejected' };
+      case 'max':
+        value = Math.max(...values);
+        break;
+      case 'first':
+        value = values[0];
+        break;
+      default:
+        value = Math.min(...values);
+    }
+  }
+
+  if (quantity && quantity > 1 && (format.multi_buy || 'unit') === 'unit') {
+    value = value / quantity;
+  }
+
+  return {
+    ok: true,
+    price: {
+      value,
+      ...(currency && { currency }),
+      ...(quantity && { quantity }),
+      ...(isRange && { isRange }),
+    },
+  };
+}
+
+/**
+ * Convierte un token numérico ("1.234,50", "113,500.00") a número
+ * Si la tienda no define separadores, se infieren del propio token
+ */
+function parseNumber(token: string, format: PriceFormatConfig): number {
+  const decimal = format.decimal_separator || inferDecimalSeparator(token, format.thousands_separator);
+
+  const normalized = decimal === ','
+    ? token.replace(/\./g, '').replace(',', '.')
+    : token.replace(/,/g, '');
+
+  // Si quedan varios puntos, eran separadores de miles
+  const parts = normalized.split('.');
+  if (parts.length > 2) {
+    return parseFloat(parts.join(''));
+  }
+
+  return parseFloat(normalized);
+}
+
+/**
+ * Infiere el separador decimal de un token sin configuración explícita
+ * - Si la tienda define thousands_separator "." o ",", el decimal es el otro
+ * - Con "," y "." el último que aparece es el decimal
+ * - Con un único separador seguido de exactamente 3 dígitos, es de miles
+ */
+function inferDecimalSeparator(
+  token: string,
+  thousands?: PriceFormatConfig['thousands_separator']
+): '.' | ',' | undefined {
+  if (thousands === '.') return ',';
+  if (thousands === ',') return '.';
+
+  const lastDot = token.lastIndexOf('.');
+  const lastComma = token.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    return lastDot > lastComma ? '.' : ',';
+  }
+
+  const separator = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : undefined;
+  if (!separator) return undefined;
+
+  const occurrences = token.split(separator).length - 1;
+  const decimals = token.length - token.lastIndexOf(separator) - 1;
+
+  if (occurrences > 1 || decimals === 3) {
+    // Separador de miles: el decimal es el otro
+    return separator === '.' ? ',' : '.';
+  }
+
+  return separator;
+}
+
+/**
+ * Detecta la moneda a partir de los símbolos presentes en el texto
+ */
+function detectCurrency(text: string, symbols: Record<string, string>): string | undefined {
+  const upper = text.toUpperCase();
+  const symbol = orderedSymbols(symbols).find(candidate => upper.includes(candidate.toUpperCase()));
+  return symbol ? symbols[symbol] : undefined;
+}
+
+/**
+ * Indica si el texto (lo que precede a un número) termina en un símbolo de moneda
+ */
+function endsWithCurrencySymbol(text: string, symbols: Record<string, string>): boolean {
+  const upper = text.trimEnd().toUpperCase();
+  return orderedSymbols(symbols).some(symbol => upper.endsWith(symbol.toUpperCase()));
+}
+
+/**
+ * Símbolos de más largo a más corto ("US$" antes que "$")
+ */
+function orderedSymbols(symbols: Record<string, string>): string[] {
+  return Object.keys(symbols).sort((a, b) => b.length - a.length);
+}
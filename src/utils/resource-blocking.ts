@@ -0,0 +1,141 @@
+/**
+ * Reglas de bloqueo de recursos durante el scraping (imágenes, fuentes, trackers, etc.)
+ * Se configuran por tienda en `scraping.block_resources`:
+ *
+ *   block_resources:
+ *     types: [image, font, media]
+ *     url_patterns: ["google-analytics\\.com", "facebook\\.net"]
+ *     third_party: true
+ *     allow: ["doofinder\\.com"]
+ */
+
+import { ResourceBlockingConfig } from '../types/store-config.types';
+
+export type BlockReason = 'type' | 'url_pattern' | 'third_party';
+
+export interface ResourceRequestInfo {
+  url: string;
+  resourceType: string;       // Tipo de Playwright: document, stylesheet, image, media, font, script, xhr, fetch...
+  isMainDocument: boolean;    // Navegación del frame principal (nunca se bloquea)
+}
+
+export interface ResourceBlockingStats {
+  blockedRequests: number;
+  allowedRequests: number;
+  blockedByType: Record<string, number>;
+  blockedByReason: Partial<Record<BlockReason, number>>;
+  bytesLoaded: number;            // Según content-length de las respuestas recibidas
+  estimatedBytesSaved: number;    // Estimado con tamaños promedio por tipo de recurso
+}
+
+/**
+ * Tamaño promedio aproximado por tipo de recurso (bytes), usado para estimar el ahorro
+ */
+const AVERAGE_RESOURCE_BYTES: Record<string, number> = {
+  image: 40 * 1024,
+  media: 500 * 1024,
+  font: 30 * 1024,
+  stylesheet: 20 * 1024,
+  script: 30 * 1024,
+  document: 50 * 1024,
+};
+const DEFAULT_RESOURCE_BYTES = 5 * 1024;
+
+/**
+ * Decide si una petición se bloquea y por qué (null si se permite)
+ * La lista `allow` tiene prioridad sobre cualquier regla de bloqueo
+ */
+export function getBlockReason(
+  request: ResourceRequestInfo,
+  config: ResourceBlockingConfig,
+  pageUrl: string
+): BlockReason | null {
+  if (request.isMainDocument || request.url.startsWith('data:')) {
+    return null;
+  }
+
+  if (config.allow?.some(pattern => safeTest(pattern, request.url))) {
+    return null;
+  }
+
+  if (config.types?.includes(request.resourceType)) {
+    return 'type';
+  }
+
+  if (config.url_patterns?.some(pattern => safeTest(pattern, request.url))) {
+    return 'url_pattern';
+  }
+
+  if (config.third_party && isThirdParty(request.url, pageUrl)) {
+    return 'third_party';
+  }
+
+  return null;
+}
+
+export function createBlockingStats(): ResourceBlockingStats {
+  return {
+    blockedRequests: 0,
+    allowedRequests: 0,
+    blockedByType: {},
+    blockedByReason: {},
+    bytesLoaded: 0,
+    estimatedBytesSaved: 0,
+  };
+}
+
+/**
+ * Registra una petición bloqueada en las estadísticas
+ */
+export function recordBlocked(stats: ResourceBlockingStats, resourceType: string, reason: BlockReason): void {
+  stats.blockedRequests++;
+  stats.blockedByType[resourceType] = (stats.blockedByType[resourceType] || 0) + 1;
+  stats.blockedByReason[reason] = (stats.blockedByReason[reason] || 0) + 1;
+  stats.estimatedBytesSaved += AVERAGE_RESOURCE_BYTES[resourceType] ?? DEFAULT_RESOURCE_BYTES;
+}
+
+/**
+ * Suma las estadísticas de varias páginas
+ */
+export function mergeBlockingStats(target: ResourceBlockingStats, source: ResourceBlockingStats): ResourceBlockingStats {
+  target.blockedRequests += source.blockedRequests;
+  target.allowedRequests += source.allowedRequests;
+  target.bytesLoaded += source.bytesLoaded;
+  target.estimatedBytesSaved += source.estimatedBytesSaved;
+
+  for (const [type, count] of Object.entries(source.blockedByType)) {
+    target.blockedByType[type] = (target.blockedByType[type] || 0) + count;
+  }
+  for (const [reason, count] of Object.entries(source.blockedByReason) as Array<[BlockReason, number]>) {
+    target.blockedByReason[reason] = (target.blockedByReason[reason] || 0) + count;
+  }
+
+  return target;
+}
+
+/**
+ * Una petición es de terceros si no pertenece al dominio base de la página
+ * Ej: para cr.epaenlinea.com, static.epaenlinea.com es propio y google.com es de terceros
+ */
+function isThirdParty(requestUrl: string, pageUrl: string): boolean {
+  try {
+    const requestHost = new URL(requestUrl).hostname;
+    const baseDomain = getBaseDomain(new URL(pageUrl).hostname);
+    return requestHost !== baseDomain && !requestHost.endsWith(`.${baseDomain}`);
+  } catch {
+    return false;
+  }
+}
+
+function getBaseDomain(hostname: string): string {
+  return hostname.split('.').slice(-2).join('.');
+}
+
+function safeTest(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(value);
+  } catch (error) {
+    console.warn(`⚠️  Regex de bloqueo inválido: ${pattern}`, error);
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Política de reintentos por tienda (`scraping.retry` en el YAML)
+ *
+ *   retry:
+ *     attempts: 3
+ *     backoff_ms: 1000
+ *     backoff_multiplier: 2
+ *     max_backoff_ms: 10000
+ *     retry_on: [network, timeout, http_5xx]
+ */
+
+import { RetryConfig } from '../types/store-config.types';
+import { ScrapeFailureClass } from './scrape-errors';
+
+export type RetryPolicy = Required<RetryConfig>;
+
+// Sin `retry` en el YAML se hace un único intento
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 1,
+  backoff_ms: 1000,
+  backoff_multiplier: 2,
+  max_backoff_ms: 10000,
+  retry_on: ['network', 'timeout', 'http_5xx'],
+};
+
+/**
+ * Completa la configuración de la tienda con los valores por defecto
+ */
+export function resolveRetryPolicy(config?: RetryConfig): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...config,
+    attempts: Math.max(1, config?.attempts ?? DEFAULT_RETRY_POLICY.attempts),
+  };
+}
+
+export function isRetryable(policy: RetryPolicy, failureClass: ScrapeFailureClass): boolean {
+  return policy.retry_on.includes(failureClass);
+}
+
+/**
+ * Espera antes del siguiente intento (exponencial con ±20% de jitter)
+ * `attempt` es el número del intento que acaba de fallar (1 = primero)
+ */
+export function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const base = Math.min(
+    policy.backoff_ms * Math.pow(policy.backoff_multiplier, attempt - 1),
+    policy.max_backoff_ms
+  );
+  const jitter = base * 0.2 * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + jitter));
+}
@@ -0,0 +1,142 @@
+/**
+ * Parser de robots.txt (RFC 9309) con soporte de Crawl-delay
+ * - Se usan los grupos cuyo User-agent sea igual (sin distinguir mayúsculas) al product
+ *   token del crawler, o el grupo "*"
+ * - Gana la regla (Allow/Disallow) más larga que coincida; en empate gana Allow
+ * - Soporta comodines `*` y `$` al final del patrón
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];   // En minúsculas
+  rules: RobotsRule[];
+  crawlDelay?: number;    // Segundos
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // User-agent consecutivos comparten el mismo grupo
+      if (!current || !lastWasUserAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasUserAgent = true;
+      continue;
+    }
+
+    lastWasUserAgent = false;
+
+    if (key === 'sitemap') {
+      sitemaps.push(value);
+    } else if (current && (key === 'allow' || key === 'disallow')) {
+      // "Disallow:" vacío significa permitir todo
+      if (value) {
+        current.rules.push({ allow: key === 'allow', path: value });
+      }
+    } else if (current && key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Product token del user agent (el nombre antes de la versión), en minúsculas
+ * Ej: "PreciosBot/1.0 (+https://...)" -> "preciosbot", "Mozilla/5.0 (...)" -> "mozilla"
+ */
+export function getProductToken(userAgent: string): string {
+  return userAgent.trim().match(/^[a-z_-]+/i)?.[0].toLowerCase() || '';
+}
+
+/**
+ * Reglas que aplican al user agent (todos los grupos que coincidan, fusionados)
+ */
+export function getRobotsGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | null {
+  const token = getProductToken(userAgent);
+  let matched = token
+    ? robots.groups.filter(group => group.userAgents.includes(token))
+    : [];
+
+  if (matched.length === 0) {
+    matched = robots.groups.filter(group => group.userAgents.includes('*'));
+  }
+  if (matched.length === 0) {
+    return null;
+  }
+
+  const delays = matched.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+  return {
+    userAgents: matched.flatMap(group => group.userAgents),
+    rules: matched.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+/**
+ * Indica si la ruta (path + query) está permitida para el user agent
+ */
+export function isAllowedByRobots(robots: RobotsTxt, userAgent: string, path: string): boolean {
+  const group = getRobotsGroup(robots, userAgent);
+  if (!group) return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!matchesRobotsPath(rule.path, path)) continue;
+
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+function matchesRobotsPath(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(safeDecode(path));
+}
+
+function safeDecode(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
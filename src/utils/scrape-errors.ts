@@ -0,0 +1,106 @@
+/**
+ * Clasificación de fallos de scraping
+ * Permite decidir qué reintentar y reportar por qué falló cada tienda
+ */
+
+export type ScrapeFailureClass =
+  | 'network'          // DNS, conexión rechazada/reiniciada, sin internet
+  | 'timeout'          // Navegación o descarga que excede el tiempo máximo
+  | 'http_4xx'         // Respuesta 4xx de la tienda
+  | 'http_5xx'         // Respuesta 5xx de la tienda
+  | 'bot_challenge'    // Página de verificación anti-bot en vez del contenido
+  | 'empty_results'    // La página cargó pero no tiene productos
+  | 'selector_missing' // No se encontró el contenedor o los items configurados
+  | 'robots_disallowed' // El robots.txt de la tienda no permite la URL
+  | 'unknown';
+
+export const SCRAPE_FAILURE_CLASSES: ScrapeFailureClass[] = [
+  'network',
+  'timeout',
+  'http_4xx',
+  'http_5xx',
+  'bot_challenge',
+  'empty_results',
+  'selector_missing',
+  'robots_disallowed',
+  'unknown',
+];
+
+export interface ScrapeErrorDetails {
+  status?: number;     // Código HTTP si aplica
+  url?: string;
+  body?: string;       // HTML de la respuesta de error (para detectar páginas de bloqueo)
+  reason?: string;     // Motivo del bloqueo si es bot_challenge (ej: "cloudflare", "status_403")
+}
+
+/**
+ * Error de scraping con su clase de fallo
+ */
+export class ScrapeError extends Error {
+  readonly failureClass: ScrapeFailureClass;
+  readonly details: ScrapeErrorDetails;
+
+  constructor(failureClass: ScrapeFailureClass, message: string, details: ScrapeErrorDetails = {}) {
+    super(message);
+    this.name = 'ScrapeError';
+    this.failureClass = failureClass;
+    this.details = details;
+  }
+}
+
+/**
+ * Clase de fallo para un código HTTP de error
+ */
+export function failureClassForStatus(status: number): ScrapeFailureClass {
+  return status >= 500 ? 'http_5xx' : 'http_4xx';
+}
+
+const NETWORK_PATTERNS = [
+  /net::ERR_(NAME_NOT_RESOLVED|CONNECTION|INTERNET_DISCONNECTED|ADDRESS_UNREACHABLE|SSL|CERT|EMPTY_RESPONSE|TUNNEL|PROXY)/i,
+  /\b(ENOTFOUND|EAI_AGAIN|ECONNREFUSED|ECONNRESET|EHOSTUNREACH|ENETUNREACH|EPIPE)\b/,
+  /fetch failed|socket hang up|network error/i,
+];
+const TIMEOUT_PATTERNS = [/timeout|timed out|ERR_TIMED_OUT|aborted due to timeout/i];
+
+/**
+ * Convierte cualquier error en ScrapeError, clasificándolo por su mensaje
+ * Si ya es un ScrapeError se retorna tal cual
+ */
+export function toScrapeError(error: unknown, prefix: string = 'Failed to scrape'): ScrapeError {
+  if (error instanceof ScrapeError) {
+    return error;
+  }
+
+  const message = error instanceof Error
+    ? [error.message, ...describeCause(error)].join(' ')
+    : String(error);
+
+  const status = message.match(/\bHTTP (\d{3})\b/)?.[1];
+  let failureClass: ScrapeFailureClass = 'unknown';
+
+  if (status) {
+    failureClass = failureClassForStatus(parseInt(status, 10));
+  } else if (TIMEOUT_PATTERNS.some(pattern => pattern.test(message))) {
+    failureClass = 'timeout';
+  } else if (NETWORK_PATTERNS.some(pattern => pattern.test(message))) {
+    failureClass = 'network';
+  }
+
+  return new ScrapeError(
+    failureClass,
+    `${prefix}: ${error instanceof Error ? error.message : message}`,
+    status ? { status: parseInt(status, 10) } : {}
+  );
+}
+
+/**
+ * Código y mensaje del `cause` de un error (undici reporta ahí ECONNRESET, ENOTFOUND, etc)
+ */
+function describeCause(error: Error): string[] {
+  if (!('cause' in error) || typeof error.cause !== 'object' || error.cause === null) {
+    return [];
+  }
+
+  const { code, message } = error.cause as { code?: unknown; message?: unknown };
+  return [code, message].filter((part): part is string => typeof part === 'string' && part !== '');
+}
@@ -0,0 +1,192 @@
+/**
+ * Construcción de URLs de búsqueda desde `search.url_template`
+ * Cada `{nombre}` del template se reemplaza con el parámetro del mismo nombre:
+ *
+ *   search:
+ *     url_template: "https://tienda.com/buscar?q={query}&orden={sort}&p={page}"
+ *     params:
+ *       - name: query
+ *         required: true
+ *       - name: sort
+ *         values: { price_asc: "precio", price_desc: "-precio" }
+ *       - name: page
+ *         default: 1
+ *
+ * Un parámetro sin valor (ni default) se quita de la URL junto con su clave (`&orden=`)
+ * Nombres comunes entre tiendas: page, page_size, sort, category, min_price, max_price
+ */
+
+import {
+  BrowseSearchConfig,
+  BrowseSearchType,
+  SearchConfig,
+  SearchParamConfig,
+  SearchParamEncoding,
+  TaxonomyTerm,
+} from '../types/store-config.types';
+
+/**
+ * Valores de los parámetros de búsqueda (genéricos, antes del mapeo de cada tienda)
+ */
+export type SearchParamValues = Record<string, string | number>;
+
+export interface SearchUrlResult {
+  url: string | null;             // null si falta algún parámetro requerido
+  applied: string[];              // Parámetros usados en la URL
+  ignored: string[];              // Parámetros pedidos que la tienda no soporta (o con valor sin mapeo)
+  missing: string[];              // Parámetros requeridos sin valor
+}
+
+const PLACEHOLDER_PATTERN = /\{([a-z_][a-z0-9_]*)\}/gi;
+
+/**
+ * Placeholders presentes en el template
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]))];
+}
+
+/**
+ * Genera la URL de búsqueda de una tienda con los valores pedidos
+ */
+export function renderSearchUrl(search: SearchConfig, values: SearchParamValues): SearchUrlResult {
+  const placeholders = getTemplatePlaceholders(search.url_template);
+  const paramConfigs = new Map((search.params || []).map(param => [param.name, param]));
+
+  const applied: string[] = [];
+  const missing: string[] = [];
+  const ignored = Object.keys(values).filter(name => !placeholders.includes(name));
+  const resolved = new Map<string, string>();
+
+  for (const name of placeholders) {
+    const config: SearchParamConfig = paramConfigs.get(name) || { name };
+    const requested = values[name];
+    let value: string | number | undefined = requested ?? config.default;
+
+    // Valor genérico -> valor de la tienda (un valor sin mapeo no se soporta)
+    if (value !== undefined && config.values) {
+      const mapped = config.values[String(value)];
+      if (mapped === undefined && requested !== undefined) {
+        ignored.push(name);
+        value = config.default;
+      } else if (mapped !== undefined) {
+        value = mapped;
+      }
+    }
+
+    if (value === undefined || value === '') {
+      if (config.required || name === 'query') {
+        missing.push(name);
+      }
+      continue;
+    }
+
+    resolved.set(name, encodeValue(String(value), config.encoding));
+    if (requested !== undefined && !ignored.includes(name)) {
+      applied.push(name);
+    }
+  }
+
+  if (missing.length > 0) {
+    return { url: null, applied, ignored, missing };
+  }
+
+  return { url: fillTemplate(search.url_template, resolved), applied, ignored, missing };
+}
+
+/**
+ * Genera la URL del listado de una categoría o marca (search.category / search.brand)
+ * Si la tienda no mapea el término en `values`, retorna url null con el tipo en `missing`
+ */
+export function renderBrowseUrl(
+  browse: BrowseSearchConfig,
+  type: BrowseSearchType,
+  term: TaxonomyTerm,
+  values: SearchParamValues
+): SearchUrlResult {
+  const value = browse.values[term.id];
+  if (value === undefined) {
+    return { url: null, applied: [], ignored: [], missing: [type] };
+  }
+
+  const params: SearchParamConfig[] = [
+    ...(browse.params || []).filter(param => param.name !== type),
+    { name: type, required: true, encoding: browse.encoding },
+  ];
+  return renderSearchUrl({ url_template: browse.url_template, params }, { ...values, [type]: value });
+}
+
+/**
+ * Reemplaza los placeholders; los que no tienen valor se quitan junto con su `clave=`
+ */
+function fillTemplate(template: string, resolved: Map<string, string>): string {
+  const withoutEmpty = template
+    // "?a={x}&b=..." / "&a={x}" sin valor
+    .replace(/([?&])[^?&#=/{}]+=\{([a-z_][a-z0-9_]*)\}/gi, (match, separator: string, name: string) =>
+      resolved.has(name) ? match : separator === '?' ? '?' : '')
+    .replace(/\?&/, '?')
+    .replace(/[?&]+(?=#|$)/, '');
+
+  return withoutEmpty.replace(PLACEHOLDER_PATTERN, (_match, name: string) => resolved.get(name) ?? '');
+}
+
+function encodeValue(value: string, encoding: SearchParamEncoding = 'component'): string {
+  switch (encoding) {
+    case 'plus':
+      return encodeURIComponent(value).replace(/%20/g, '+');
+    case 'path':
+      return value.split('/').map(encodeURIComponent).join('/');
+    case 'slug':
+      return value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+    case 'raw':
+      return value;
+    default:
+      return encodeURIComponent(value);
+  }
+}
+
+/**
+ * Valida los parámetros recibidos por la API (campo `params` del body)
+ * Los valores deben ser texto o números; page/page_size >= 1 y min_price <= max_price
+ */
+export function parseSearchParams(value: unknown): { params: SearchParamValues } | { error: string } {
+  if (value === undefined || value === null) {
+    return { params: {} };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'El campo "params" debe ser un objeto (ej: { "page": 2, "sort": "price_asc" })' };
+  }
+
+  const params: SearchParamValues = {};
+  for (const [name, raw] of Object.entries(value)) {
+    if (name === 'query') {
+      return { error: 'El parámetro "query" se indica con el campo "search"' };
+    }
+    if (raw === undefined || raw === null || raw === '') continue;
+    if (!(typeof raw === 'string' || (typeof raw === 'number' && Number.isFinite(raw)))) {
+      return { error: `El parámetro "${name}" debe ser un texto o un número` };
+    }
+    params[name] = raw;
+  }
+
+  for (const name of ['page', 'page_size']) {
+    if (params[name] !== undefined && !(Number.isInteger(Number(params[name])) && Number(params[name]) >= 1)) {
+      return { error: `El parámetro "${name}" debe ser un entero >= 1` };
+    }
+  }
+  for (const name of ['min_price', 'max_price']) {
+    if (params[name] !== undefined && !(Number(params[name]) >= 0)) {
+      return { error: `El parámetro "${name}" debe ser un número >= 0` };
+    }
+  }
+  if (params.min_price !== undefined && params.max_price !== undefined && Number(params.min_price) > Number(params.max_price)) {
+    return { error: 'min_price no puede ser mayor que max_price' };
+  }
+
+  return { params };
+}
@@ -0,0 +1,59 @@
+/**
+ * Utilidades para cadenas de fallback de selectores
+ * Un campo puede configurarse como string o como lista ordenada de alternativas:
+ *
+ *   price:
+ *     - "[itemprop='price']"                       # usa price_attribute
+ *     - selector: ".price-box .price"
+ *       attribute: "text"
+ */
+
+import * as cheerio from 'cheerio';
+import { SelectorAlternative, SelectorSpec } from '../types/store-config.types';
+
+/**
+ * Selección de Cheerio sobre cualquier tipo de nodo (Cheerio<AnyNode>)
+ */
+export type CheerioSelection = ReturnType<cheerio.CheerioAPI>;
+
+/**
+ * Normaliza un SelectorSpec a una lista de alternativas con atributo resuelto
+ */
+export function toSelectorAlternatives(
+  spec: SelectorSpec | undefined,
+  defaultAttribute: string = 'text'
+): Array<SelectorAlternative & { attribute: string }> {
+  if (!spec) return [];
+
+  const list = Array.isArray(spec) ? spec : [spec];
+
+  return list
+    .map(alternative => typeof alternative === 'string'
+      ? { selector: alternative, attribute: defaultAttribute }
+      : { ...alternative, attribute: alternative.attribute || defaultAttribute })
+    .filter(alternative => !!alternative.selector);
+}
+
+/**
+ * Retorna los elementos de la primera alternativa que encuentre algo dentro del contexto
+ */
+export function findFirstMatch(
+  $context: CheerioSelection,
+  spec: SelectorSpec | undefined
+): { elements: CheerioSelection; selector: string } | null {
+  for (const { selector } of toSelectorAlternatives(spec)) {
+    const elements = $context.find(selector);
+    if (elements.length > 0) {
+      return { elements, selector };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Representación legible de un SelectorSpec para logs
+ */
+export function describeSelector(spec: SelectorSpec | undefined): string {
+  return toSelectorAlternatives(spec).map(alternative => alternative.selector).join(' | ');
+}
@@ -0,0 +1,435 @@
+/**
+ * Esquema Zod de la configuración de tiendas (YAML en src/config/stores)
+ * Las claves desconocidas se reportan como error para detectar typos al cargar,
+ * en vez de que el campo se ignore en silencio al scrapear
+ */
+
+import { z } from 'zod';
+import { AvailabilityStatus, BrowseSearchType, StoreConfig } from '../types/store-config.types';
+import { SCRAPE_FAILURE_CLASSES, ScrapeFailureClass } from './scrape-errors';
+import { AVAILABILITY_STATUSES } from './availability';
+import { getTemplatePlaceholders } from './search-url';
+import { SEARCH_TAXONOMY } from '../config/search-taxonomy';
+
+export interface StoreConfigIssue {
+  path: string;       // Ruta dentro del YAML (ej: "product_list.selectors.price_attribute")
+  message: string;
+}
+
+export type StoreConfigValidation =
+  | { valid: true; config: StoreConfig; errors: [] }
+  | { valid: false; errors: StoreConfigIssue[] };
+
+const nonEmptyString = z.string().min(1, 'No puede estar vacío');
+const positiveInt = z.number().int().positive();
+
+const regexString = nonEmptyString.refine(isValidRegex, 'Regex inválido');
+
+const fieldTransformSchema = z.union([
+  z.enum(['trim', 'lowercase', 'uppercase']),
+  z.object({ regex: regexString, group: z.number().int().min(0).optional(), flags: z.string().optional() }).strict(),
+  z.object({ json_path: nonEmptyString }).strict(),
+  z.object({ split: z.string(), index: z.number().int().optional() }).strict(),
+  z.object({ join: z.string() }).strict(),
+  z.object({ replace: regexString, with: z.string().optional() }).strict(),
+  z.object({ map: z.record(z.string()), fallback: z.string().optional() }).strict(),
+  z.object({ default: z.string() }).strict(),
+]);
+
+const transformsSchema = z.array(fieldTransformSchema);
+
+const selectorAlternativeSchema = z.object({
+  selector: nonEmptyString,
+  attribute: nonEmptyString.optional(),
+  transforms: transformsSchema.optional(),
+}).strict();
+
+const selectorSpecSchema = z.union([
+  nonEmptyString,
+  z.array(z.union([nonEmptyString, selectorAlternativeSchema])).min(1, 'Debe tener al menos una alternativa'),
+]);
+
+interface SelectorFieldOptions {
+  required?: boolean;
+  attributeRequired?: boolean;
+}
+
+// Forma tipada de selectorField (con claves literales, para que z.infer conserve cada campo)
+type SelectorFieldShape<N extends string, O extends SelectorFieldOptions> =
+  { [K in N]: O['required'] extends true ? typeof selectorSpecSchema : z.ZodOptional<typeof selectorSpecSchema> } &
+  { [K in `${N}_attribute`]: O['attributeRequired'] extends true ? typeof nonEmptyString : z.ZodOptional<typeof nonEmptyString> } &
+  { [K in `${N}_transforms`]: z.ZodOptional<typeof transformsSchema> };
+
+/**
+ * Claves de un campo extraído por selector: `<campo>`, `<campo>_attribute` y `<campo>_transforms`
+ */
+function selectorField<N extends string, O extends SelectorFieldOptions = { required?: false; attributeRequired?: false }>(
+  name: N,
+  options: O = {} as O
+): SelectorFieldShape<N, O> {
+  const attribute = options.attributeRequired ? nonEmptyString : nonEmptyString.optional();
+  return {
+    [name]: options.required ? selectorSpecSchema : selectorSpecSchema.optional(),
+    [`${name}_attribute`]: attribute,
+    [`${name}_transforms`]: transformsSchema.optional(),
+  } as SelectorFieldShape<N, O>;
+}
+
+const productListSchema = z.object({
+  container: selectorSpecSchema,
+  item: selectorSpecSchema,
+  selectors: z.object({
+    ...selectorField('url'),
+    ...selectorField('title', { required: true, attributeRequired: true }),
+    ...selectorField('price', { required: true, attributeRequired: true }),
+    ...selectorField('currency'),
+    ...selectorField('image'),
+    ...selectorField('availability'),
+    ...selectorField('regular_price'),
+    ...selectorField('offer_price'),
+    ...selectorField('offer_badge'),
+    ...selectorField('sku'),
+    sku_regex: regexString.optional(),
+    ...selectorField('validity'),
+    ...selectorField('description'),
+  }).strict(),
+}).strict();
+
+const legacyBrandSchema = z.object({
+  selector: nonEmptyString,
+  extraction_method: z.enum(['regex', 'table_search']).optional(),
+  regex_pattern: regexString.optional(),
+  search_label: z.string().optional(),
+}).strict();
+
+const productDetailSchema = z.object({
+  ...selectorField('title', { required: true }),
+  ...selectorField('price', { required: true, attributeRequired: true }),
+  ...selectorField('description'),
+  images: z.object({
+    main: selectorSpecSchema,
+    main_attribute: nonEmptyString,
+    thumbnails: selectorSpecSchema.optional(),
+    thumbnails_attribute: nonEmptyString.optional(),
+  }).strict().optional(),
+  specifications: selectorSpecSchema.optional(),
+  ...selectorField('availability'),
+  ...selectorField('sku'),
+  sku_regex: regexString.optional(),
+  brand: z.union([selectorSpecSchema, legacyBrandSchema]).optional(),
+  brand_attribute: nonEmptyString.optional(),
+  brand_transforms: transformsSchema.optional(),
+}).strict();
+
+const searchParamEncodingSchema = z.enum(['component', 'plus', 'path', 'slug', 'raw']).optional();
+
+/**
+ * Cada parámetro declarado debe tener su placeholder en el url_template
+ */
+function checkParamPlaceholders(search: { url_template: string; params?: Array<{ name: string }> }, ctx: z.RefinementCtx) {
+  const placeholders = getTemplatePlaceholders(search.url_template);
+  (search.params || []).forEach((param, index) => {
+    if (!placeholders.includes(param.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['params', index, 'name'],
+        message: `El url_template no tiene el placeholder {${param.name}}`,
+      });
+    }
+  });
+}
+
+const searchParamsSchema = z.array(z.object({
+  name: z.string().regex(/^[a-z_][a-z0-9_]*$/i, 'Nombre de parámetro inválido (letras, números y _)'),
+  required: z.boolean().optional(),
+  default: z.union([z.string(), z.number()]).optional(),
+  encoding: searchParamEncodingSchema,
+  values: z.record(z.string()).optional(),
+}).strict());
+
+// Las claves de `values` deben ser ids de la taxonomía (un typo dejaría el término sin listado)
+const browseSearchSchema = (placeholder: BrowseSearchType) => z.object({
+  url_template: nonEmptyString.refine(
+    value => value.includes(`{${placeholder}}`),
+    `Debe incluir el placeholder {${placeholder}}`
+  ),
+  encoding: searchParamEncodingSchema,
+  values: z.record(nonEmptyString).superRefine((values, ctx) => {
+    const ids = SEARCH_TAXONOMY[placeholder].map(term => term.id);
+    for (const id of Object.keys(values).filter(key => !ids.includes(key))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [id], message: `"${id}" no es un id de la taxonomía (ver GET /api/search/taxonomy)` });
+    }
+  }),
+  params: searchParamsSchema.optional(),
+}).strict().superRefine(checkParamPlaceholders);
+
+const searchSchema = z.object({
+  url_template: nonEmptyString.refine(value => value.includes('{query}'), 'Debe incluir el placeholder {query}'),
+  params: searchParamsSchema.optional(),
+  category: browseSearchSchema('category').optional(),
+  brand: browseSearchSchema('brand').optional(),
+}).strict().superRefine(checkParamPlaceholders);
+
+const paginationSchema = z.object({
+  enabled: z.boolean(),
+  next_button: selectorSpecSchema,
+  next_button_attribute: nonEmptyString,
+  max_pages: positiveInt.optional(),
+  page_param: nonEmptyString.optional(),
+  current_page_selector: selectorSpecSchema.optional(),
+  total_pages_selector: selectorSpecSchema.optional(),
+}).strict();
+
+const retrySchema = z.object({
+  attempts: positiveInt.optional(),
+  backoff_ms: z.number().min(0).optional(),
+  backoff_multiplier: z.number().min(1).optional(),
+  max_backoff_ms: z.number().min(0).optional(),
+  retry_on: z.array(z.enum(SCRAPE_FAILURE_CLASSES as [ScrapeFailureClass, ...ScrapeFailureClass[]])).optional(),
+}).strict();
+
+/**
+ * engine http usa ProxyAgent de undici, que solo admite proxies HTTP/HTTPS
+ */
+function checkHttpEngineProxies(scraping: { engine?: string; proxy?: { servers?: string[] } }, ctx: z.RefinementCtx) {
+  if (scraping.engine !== 'http') return;
+
+  (scraping.proxy?.servers || []).forEach((server, index) => {
+    if (!/^https?:\/\//i.test(server)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['proxy', 'servers', index],
+        message: 'engine http solo admite proxies http:// o https:// (socks5 requiere engine browser)',
+      });
+    }
+  });
+}
+
+const scrapingSchema = z.object({
+  engine: z.enum(['http', 'browser']).optional(),
+  wait_time: z.number().min(0),
+  scroll: z.boolean(),
+  user_agent: nonEmptyString,
+  headers: z.record(z.string()).optional(),
+  cookies: z.record(z.string()).optional(),
+  locale: nonEmptyString.optional(),
+  timezone: nonEmptyString.optional(),
+  viewport: z.object({ width: positiveInt, height: positiveInt }).strict().optional(),
+  mobile: z.boolean().optional(),
+  mobile_device: nonEmptyString.optional(),
+  max_concurrency: positiveInt.optional(),
+  block_resources: z.object({
+    types: z.array(nonEmptyString).optional(),
+    url_patterns: z.array(regexString).optional(),
+    third_party: z.boolean().optional(),
+    allow: z.array(regexString).optional(),
+  }).strict().optional(),
+  retry: retrySchema.optional(),
+  bot_detection: z.object({
+    markers: z.array(regexString).optional(),
+    title_patterns: z.array(regexString).optional(),
+    status_codes: z.array(z.number().int().min(100).max(599)).optional(),
+    default_markers: z.boolean().optional(),
+  }).strict().optional(),
+  politeness: z.object({
+    requests_per_second: z.number().positive().optional(),
+    burst: positiveInt.optional(),
+    respect_robots_txt: z.boolean().optional(),
+  }).strict().optional(),
+  proxy: z.object({
+    enabled: z.boolean().optional(),
+    servers: z.array(z.string().url('URL de proxy inválida')).optional(),
+    rotation: z.enum(['round_robin', 'sticky']).optional(),
+    bypass: z.string().optional(),
+  }).strict().optional(),
+  wait_for_selectors: z.array(nonEmptyString).optional(),
+  wait_for_selectors_detail: z.array(nonEmptyString).optional(),
+  pagination: paginationSchema.optional(),
+}).strict().superRefine(checkHttpEngineProxies);
+
+const separatorSchema = z.enum(['.', ',']);
+
+const priceFormatSchema = z.object({
+  decimal_separator: separatorSchema.optional(),
+  thousands_separator: z.enum(['.', ',', ' ']).optional(),
+  currency_symbols: z.record(z.string().length(3, 'Debe ser un código ISO de 3 letras')).optional(),
+  range: z.enum(['min', 'max', 'first', 'reject']).optional(),
+  multi_buy: z.enum(['unit', 'total']).optional(),
+}).strict();
+
+const structuredDataModeSchema = z.enum(['off', 'fallback', 'prefer']);
+
+const availabilityStatusSchema = z.enum(AVAILABILITY_STATUSES as [AvailabilityStatus, ...AvailabilityStatus[]]);
+
+const availabilitySchema = z.object({
+  rules: z.array(z.object({
+    match: regexString,
+    status: availabilityStatusSchema,
+    quantity_group: z.number().int().min(0).optional(),
+  }).strict()).optional(),
+  low_stock_threshold: z.number().min(0).optional(),
+  default_status: availabilityStatusSchema.optional(),
+}).strict();
+
+const networkFieldSchema = z.union([
+  nonEmptyString,
+  z.object({ path: nonEmptyString, transforms: transformsSchema.optional() }).strict(),
+]);
+
+const extractionSchema = z.object({
+  mode: z.enum(['dom', 'network']),
+  network: z.object({
+    url_pattern: regexString,
+    items_path: nonEmptyString,
+    fields: z.object({
+      url: networkFieldSchema,
+      title: networkFieldSchema,
+      price: networkFieldSchema,
+      regular_price: networkFieldSchema.optional(),
+      offer_price: networkFieldSchema.optional(),
+      currency: networkFieldSchema.optional(),
+      image: networkFieldSchema.optional(),
+      availability: networkFieldSchema.optional(),
+      offer_badge: networkFieldSchema.optional(),
+      sku: networkFieldSchema.optional(),
+      description: networkFieldSchema.optional(),
+    }).strict(),
+    wait_timeout: positiveInt.optional(),
+    page_param: nonEmptyString.optional(),
+    total_path: nonEmptyString.optional(),
+    page_size_path: nonEmptyString.optional(),
+    max_pages: positiveInt.optional(),
+  }).strict().optional(),
+}).strict().refine(
+  extraction => extraction.mode !== 'network' || !!extraction.network,
+  { message: 'mode "network" requiere la sección network', path: ['network'] }
+);
+
+export const storeConfigSchema = z.object({
+  extends: nonEmptyString.optional(),
+  domain: nonEmptyString.refine(value => !/[/:\s]/.test(value), 'Debe ser un hostname, sin protocolo ni ruta'),
+  name: nonEmptyString,
+  country: z.string().length(2, 'Debe ser un código de país de 2 letras'),
+  currency: z.string().length(3, 'Debe ser un código ISO de 3 letras'),
+  enabled: z.boolean().optional(),
+  tags: z.array(nonEmptyString).optional(),
+  priority: z.number().int().optional(),
+  region: nonEmptyString.optional(),
+  price_format: priceFormatSchema.optional(),
+  search: searchSchema,
+  product_list: productListSchema,
+  extraction: extractionSchema.optional(),
+  product_detail: productDetailSchema.nullable().optional(), // null = la tienda no tiene páginas de detalle
+  structured_data: z.object({
+    listing: structuredDataModeSchema.optional(),
+    detail: structuredDataModeSchema.optional(),
+  }).strict().optional(),
+  availability: availabilitySchema.optional(),
+  scraping: scrapingSchema,
+}).strict();
+
+// El esquema y StoreConfig deben describir lo mismo: si uno cambia sin el otro, esto no compila
+type AssertAssignable<From extends To, To> = From;
+export type StoreConfigSchemaCheck = [
+  AssertAssignable<z.infer<typeof storeConfigSchema>, StoreConfig>,
+  AssertAssignable<StoreConfig, z.infer<typeof storeConfigSchema>>,
+];
+
+/**
+ * Valida una configuración ya parseada del YAML
+ * Los errores se reportan uno por ruta, con las claves desconocidas expandidas
+ */
+export function validateStoreConfig(raw: unknown): StoreConfigValidation {
+  const result = storeConfigSchema.safeParse(raw, { errorMap: spanishErrorMap });
+
+  if (result.success) {
+    return { valid: true, config: result.data, errors: [] };
+  }
+
+  return { valid: false, errors: formatIssues(result.error) };
+}
+
+/**
+ * Convierte los errores de Zod en una lista plana `ruta: mensaje`
+ */
+export function formatIssues(error: z.ZodError): StoreConfigIssue[] {
+  const issues: StoreConfigIssue[] = [];
+
+  for (const issue of error.issues) {
+    if (issue.code === 'unrecognized_keys') {
+      for (const key of issue.keys) {
+        issues.push({ path: formatPath([...issue.path, key]), message: 'Clave desconocida' });
+      }
+    } else if (issue.code === 'invalid_union') {
+      issues.push({ path: formatPath(issue.path), message: describeUnionIssue(issue) });
+    } else {
+      issues.push({ path: formatPath(issue.path), message: issue.message });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Mensaje de un union inválido: el error de la alternativa que más avanzó
+ * (ej: un transform `{ regex }` con flags inválidos en vez de "Invalid input")
+ */
+function describeUnionIssue(issue: z.ZodInvalidUnionIssue): string {
+  const deepest = issue.unionErrors
+    .flatMap(unionError => unionError.issues)
+    .filter(inner => inner.path.length > issue.path.length && inner.code !== 'invalid_type')
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+  if (deepest) {
+    const relative = deepest.path.slice(issue.path.length);
+    return `${formatPath(relative)}: ${deepest.message}`;
+  }
+
+  // Ej: transform "trimm" -> opciones válidas del enum
+  const enumIssue = issue.unionErrors
+    .flatMap(unionError => unionError.issues)
+    .find(inner => inner.code === 'invalid_enum_value');
+
+  return enumIssue?.message || 'Formato no reconocido';
+}
+
+/**
+ * Mensajes en español para los errores genéricos de Zod
+ */
+const spanishErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return {
+        message: issue.received === 'undefined'
+          ? 'Campo requerido'
+          : `Se esperaba ${issue.expected}, se recibió ${issue.received}`,
+      };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `Valor "${issue.received}" no permitido (opciones: ${issue.options.join(', ')})` };
+    case z.ZodIssueCode.too_small:
+      return { message: `Debe ser ${issue.inclusive ? '>=' : '>'} ${issue.minimum}` };
+    case z.ZodIssueCode.too_big:
+      return { message: `Debe ser ${issue.inclusive ? '<=' : '<'} ${issue.maximum}` };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) return '(raíz)';
+  return path.reduce<string>(
+    (acc, segment) => typeof segment === 'number' ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment,
+    ''
+  );
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+
@@ -0,0 +1,107 @@
+/**
+ * Selección de tiendas para una búsqueda multi-tienda
+ * Se basa en `enabled`, `tags`, `priority` y `region` de cada configuración:
+ *
+ *   enabled: true
+ *   tags: [ferreteria, construccion, hogar]
+ *   priority: 10
+ *   region: GAM
+ */
+
+import { StoreConfig } from '../types/store-config.types';
+
+/**
+ * Campos de la configuración que usa la selección
+ */
+export type SelectableStoreConfig = Pick<StoreConfig, 'domain' | 'enabled' | 'tags' | 'priority' | 'region'>;
+
+export interface StoreSelection {
+  includeStores?: string[];       // Solo estos dominios (además de los que coincidan con `tags`)
+  excludeStores?: string[];
+  tags?: string[];                // Tiendas con al menos uno de estos tags
+  excludeTags?: string[];
+  regions?: string[];             // Solo tiendas de estas regiones
+}
+
+/**
+ * Por qué una tienda no participa en la búsqueda
+ * - disabled: `enabled: false` en su configuración
+ * - not_included: no está en includeStores ni tiene ninguno de los tags pedidos
+ * - excluded: está en excludeStores o tiene alguno de los excludeTags
+ * - region: su región no está en regions
+ * - missing_params: su url_template requiere un parámetro que la búsqueda no indicó
+ * - unsupported_type: no tiene listado para la categoría o marca pedida (search.category / search.brand)
+ */
+export type StoreSkipReason = 'disabled' | 'not_included' | 'excluded' | 'region' | 'missing_params' | 'unsupported_type';
+
+export interface StoreSelectionResult {
+  selected: string[];             // Ordenadas por priority (mayor primero) y luego por dominio
+  skipped: Array<{ domain: string; reason: StoreSkipReason }>;
+}
+
+/**
+ * Filtra y ordena las tiendas según la selección pedida
+ * Los dominios se comparan sin 'www.' y los tags/regiones sin distinguir mayúsculas
+ */
+export function selectStores(
+  stores: Array<{ domain: string; config: SelectableStoreConfig }>,
+  selection: StoreSelection = {}
+): StoreSelectionResult {
+  const includeStores = normalizeDomains(selection.includeStores);
+  const excludeStores = normalizeDomains(selection.excludeStores);
+  const tags = normalizeValues(selection.tags);
+  const excludeTags = normalizeValues(selection.excludeTags);
+  const regions = normalizeValues(selection.regions);
+  const hasInclude = includeStores.length > 0 || tags.length > 0;
+
+  const selected: Array<{ domain: string; priority: number }> = [];
+  const skipped: StoreSelectionResult['skipped'] = [];
+
+  for (const { domain, config } of stores) {
+    const storeDomains = [normalizeDomain(domain), normalizeDomain(config.domain)];
+    const storeTags = normalizeValues(config.tags);
+    const matchesDomain = (list: string[]) => storeDomains.some(value => list.includes(value));
+    const matchesTag = (list: string[]) => storeTags.some(tag => list.includes(tag));
+
+    let reason: StoreSkipReason | null = null;
+    if (config.enabled === false) {
+      reason = 'disabled';
+    } else if (matchesDomain(excludeStores) || matchesTag(excludeTags)) {
+      reason = 'excluded';
+    } else if (hasInclude && !matchesDomain(includeStores) && !matchesTag(tags)) {
+      reason = 'not_included';
+    } else if (regions.length > 0 && !regions.includes((config.region || '').toLowerCase())) {
+      reason = 'region';
+    }
+
+    if (reason) {
+      skipped.push({ domain, reason });
+    } else {
+      selected.push({ domain, priority: config.priority ?? 0 });
+    }
+  }
+
+  selected.sort((a, b) => b.priority - a.priority || a.domain.localeCompare(b.domain));
+
+  return { selected: selected.map(({ domain }) => domain), skipped };
+}
+
+/**
+ * Dominios de includeStores/excludeStores que no corresponden a ninguna tienda
+ */
+export function findUnknownStores(requested: string[] | undefined, domains: string[]): string[] {
+  const known = new Set(domains.map(normalizeDomain));
+  return (requested || []).filter(domain => !known.has(normalizeDomain(domain)));
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^www\./, '');
+}
+
+function normalizeDomains(domains: string[] | undefined): string[] {
+  return (domains || []).map(normalizeDomain);
+}
+
+function normalizeValues(values: string[] | undefined): string[] {
+  return (values || []).map(value => value.trim().toLowerCase());
+}
@@ -0,0 +1,74 @@
+/**
+ * Token bucket para limitar la tasa de requests
+ * - `ratePerSecond` tokens se recargan por segundo, hasta `burst`
+ * - Cada request consume un token; si no hay, espera a que se recargue
+ * - Las esperas se atienden en orden (FIFO)
+ */
+export interface TokenBucketLimit {
+  ratePerSecond: number;
+  burst: number;
+}
+
+export class TokenBucket {
+  limit: TokenBucketLimit;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private tail: Promise<unknown> = Promise.resolve();
+  private waiting = 0;
+
+  constructor(limit: TokenBucketLimit) {
+    this.limit = limit;
+    this.tokens = limit.burst;
+  }
+
+  /**
+   * Actualiza el límite (la configuración de la tienda o el crawl-delay pueden cambiar)
+   */
+  setLimit(limit: TokenBucketLimit): void {
+    this.refill();
+    this.limit = limit;
+    this.tokens = Math.min(this.tokens, limit.burst);
+  }
+
+  /**
+   * Espera un token y lo consume. Retorna los ms esperados
+   */
+  take(): Promise<number> {
+    this.waiting++;
+    const turn = this.tail.then(() => this.takeNext());
+    this.tail = turn.catch(() => undefined);
+    return turn.finally(() => {
+      this.waiting--;
+    });
+  }
+
+  get pending(): number {
+    return this.waiting;
+  }
+
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  private async takeNext(): Promise<number> {
+    this.refill();
+
+    let waited = 0;
+    if (this.tokens < 1) {
+      waited = Math.ceil(((1 - this.tokens) / this.limit.ratePerSecond) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waited));
+      this.refill();
+    }
+
+    this.tokens = Math.max(0, this.tokens - 1);
+    return waited;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsed * this.limit.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests de regresión por tienda (golden files)
+ *
+ * Para cada YAML de src/config/stores/ se cargan las páginas grabadas en
+ * tests/golden/fixtures/<dominio>/ (mismo formato que SCRAPE_FIXTURES_MODE=record:
+ * <caso>.html + <caso>.json con la URL), se extraen los productos y la paginación,
+ * y el resultado se compara con tests/golden/expected/<dominio>/<caso>.json
+ *
+ * En tiendas con `extraction.mode: network` se usan las respuestas JSON capturadas
+ * (`responses` del .json) igual que el scraper; sin respuestas útiles se usan los selectores
+ *
+ * Después de un cambio intencional en selectores o extracción:
+ *   pnpm test:golden:update
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getStoreConfigService } from '../../src/services/store-config.service';
+import { getSelectorExtractorService } from '../../src/services/selector-extractor.service';
+import { getPaginationService } from '../../src/services/pagination.service';
+import { getNetworkExtractorService } from '../../src/services/network-extractor.service';
+import type { CapturedResponse } from '../../src/services/playwright.service';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const EXPECTED_DIR = path.join(__dirname, 'expected');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const configService = getStoreConfigService();
+const extractorService = getSelectorExtractorService();
+const paginationService = getPaginationService();
+const networkExtractorService = getNetworkExtractorService();
+
+/**
+ * Casos grabados de una tienda (nombre del .html sin extensión)
+ */
+function listCases(domain: string): string[] {
+  const dir = path.join(FIXTURES_DIR, domain);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.html'))
+    .map(file => file.replace(/\.html$/, ''))
+    .sort();
+}
+
+/**
+ * Corre la extracción de listado y paginación sobre una página grabada
+ */
+function runCase(domain: string, caseName: string) {
+  const config = configService.getConfig(domain);
+  if (!config) {
+    throw new Error(`No se pudo cargar la configuración de ${domain}`);
+  }
+
+  const html = fs.readFileSync(path.join(FIXTURES_DIR, domain, `${caseName}.html`), 'utf-8');
+  const metadata = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, domain, `${caseName}.json`), 'utf-8'));
+  const url: string = metadata.finalUrl || metadata.url;
+
+  // Modo network: la última respuesta con productos, como en ScraperService.scrapeWithNetwork
+  const network = config.extraction?.mode === 'network' ? config.extraction.network : undefined;
+  const responses: CapturedResponse[] = metadata.responses || [];
+  const listing = network ? networkExtractorService.findListingResponses(responses, network).pop() : undefined;
+
+  if (network && listing) {
+    const products = extractorService.normalizeProducts(
+      networkExtractorService.extractProducts(listing.body, config).products,
+      url
+    );
+    const nextPage = networkExtractorService.getNextPageRequest(listing, network, 1);
+    const pagination = nextPage
+      ? { hasNextPage: true, nextPageUrl: nextPage.url, method: nextPage.method, postData: nextPage.postData }
+      : { hasNextPage: false };
+
+    return toGolden({ url, method: 'network', productCount: products.length, products, pagination });
+  }
+
+  const products = extractorService.normalizeProducts(
+    extractorService.extractProductList(html, config),
+    url
+  );
+  const pagination = config.scraping.pagination
+    ? paginationService.detectPagination(html, config.scraping.pagination, url)
+    : { hasNextPage: false };
+
+  return toGolden({ url, method: 'selector', productCount: products.length, products, pagination });
+}
+
+/**
+ * Ida y vuelta por JSON para comparar exactamente lo que se guarda en el golden file
+ */
+function toGolden(result: object): unknown {
+  return JSON.parse(JSON.stringify(result));
+}
+
+describe('Golden files de extracción por tienda', () => {
+  beforeAll(() => {
+    // Los servicios registran cada paso en consola; no aporta en los tests
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stores = configService.listAvailableStores();
+
+  it('hay al menos una tienda configurada', () => {
+    expect(stores.length).toBeGreaterThan(0);
+  });
+
+  describe.each(stores)('%s', domain => {
+    const cases = listCases(domain);
+
+    it('tiene al menos una página grabada', () => {
+      expect(cases).not.toHaveLength(0);
+    });
+
+    if (cases.length === 0) {
+      return;
+    }
+
+    it.each(cases)('%s', caseName => {
+      const actual = runCase(domain, caseName);
+      const expectedPath = path.join(EXPECTED_DIR, domain, `${caseName}.json`);
+
+      if (UPDATE_GOLDEN) {
+        fs.mkdirSync(path.dirname(expectedPath), { recursive: true });
+        fs.writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`, 'utf-8');
+        return;
+      }
+
+      if (!fs.existsSync(expectedPath)) {
+        throw new Error(
+          `Falta el golden file ${path.relative(process.cwd(), expectedPath)}. ` +
+          'Generarlo con: pnpm test:golden:update'
+        );
+      }
+
+      const expected = JSON.parse(fs.readFileSync(expectedPath, 'utf-8'));
+      expect(actual).toEqual(expected);
+    });
+  });
+});
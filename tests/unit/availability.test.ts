@@ -0,0 +1,55 @@
+import { isAvailabilityStatus, normalizeAvailability } from '../../src/utils/availability';
+
+describe('normalizeAvailability', () => {
+  it.each([
+    ['https://schema.org/InStock', 'in_stock'],
+    ['Disponible', 'in_stock'],
+    ['Agregar al carrito', 'in_stock'],
+    ['No disponible', 'out_of_stock'],
+    ['Agotado', 'out_of_stock'],
+    ['Sold out', 'out_of_stock'],
+    ['Preventa', 'preorder'],
+    ['Últimas unidades', 'low_stock'],
+    ['Consultar disponibilidad', 'unknown'],
+    ['Texto sin reglas', 'unknown'],
+  ])('"%s" -> %s', (text, status) => {
+    expect(normalizeAvailability(text).availability_status).toBe(status);
+  });
+
+  it('usa default_status sin texto o sin coincidencias', () => {
+    expect(normalizeAvailability(undefined)).toEqual({ availability_status: 'unknown' });
+    expect(normalizeAvailability('', { default_status: 'in_stock' })).toEqual({ availability_status: 'in_stock' });
+    expect(normalizeAvailability('???', { default_status: 'in_stock' }).availability_status).toBe('in_stock');
+  });
+
+  it('extrae la cantidad y la usa sobre el texto', () => {
+    expect(normalizeAvailability('Quedan 2 unidades')).toEqual({ availability_status: 'in_stock', availability_quantity: 2 });
+    expect(normalizeAvailability('0 disponibles')).toEqual({ availability_status: 'out_of_stock', availability_quantity: 0 });
+    expect(normalizeAvailability('Quedan 2 unidades', { low_stock_threshold: 3 }))
+      .toEqual({ availability_status: 'low_stock', availability_quantity: 2 });
+  });
+
+  it('evalúa las reglas de la tienda antes que las de defecto', () => {
+    const config = {
+      rules: [{ match: 'stock: (\\d+)', status: 'in_stock' as const, quantity_group: 1 }],
+      low_stock_threshold: 5,
+    };
+    expect(normalizeAvailability('Stock: 4', config)).toEqual({ availability_status: 'low_stock', availability_quantity: 4 });
+    expect(normalizeAvailability('Stock: 40', config)).toEqual({ availability_status: 'in_stock', availability_quantity: 40 });
+  });
+
+  it('ignora reglas con regex inválido', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(normalizeAvailability('Agotado', { rules: [{ match: '(', status: 'in_stock' }] }).availability_status)
+      .toBe('out_of_stock');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('isAvailabilityStatus', () => {
+  it('solo acepta estados conocidos', () => {
+    expect(isAvailabilityStatus('low_stock')).toBe(true);
+    expect(isAvailabilityStatus('agotado')).toBe(false);
+    expect(isAvailabilityStatus(3)).toBe(false);
+  });
+});
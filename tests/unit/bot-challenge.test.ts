@@ -0,0 +1,45 @@
+import { detectBotChallenge } from '../../src/utils/bot-challenge';
+
+function page(title: string, body: string = ''): string {
+  return `<html><head><title>${title}</title></head><body>${body}</body></html>`;
+}
+
+describe('detectBotChallenge', () => {
+  it('reporta los códigos HTTP de bloqueo', () => {
+    expect(detectBotChallenge({ html: '', status: 403 })).toBe('status_403');
+    expect(detectBotChallenge({ html: '', status: 429 })).toBe('status_429');
+    expect(detectBotChallenge({ html: '', status: 503 })).toBeNull();
+    expect(detectBotChallenge({ html: '', status: 503 }, { status_codes: [503] })).toBe('status_503');
+  });
+
+  it('reconoce títulos de páginas de bloqueo', () => {
+    expect(detectBotChallenge({ html: page('Just a moment...') })).toBe('cloudflare');
+    expect(detectBotChallenge({ html: page('Acceso denegado') })).toBe('access_denied');
+    expect(detectBotChallenge({ html: page('Verificando su navegador') })).toBe('captcha');
+  });
+
+  it('reconoce marcadores conocidos en el HTML', () => {
+    expect(detectBotChallenge({ html: page('Tienda', '<script src="/cdn-cgi/challenge-platform/h/b"></script>') }))
+      .toBe('cloudflare');
+    expect(detectBotChallenge({ html: page('Tienda', 'Incapsula incident ID: 123') })).toBe('incapsula');
+    expect(detectBotChallenge({ html: page('Tienda', '<div class="form g-recaptcha"></div>') })).toBe('captcha');
+  });
+
+  it('no marca una página normal', () => {
+    expect(detectBotChallenge({ html: page('Taladros | Tienda', '<div class="product">Taladro</div>') })).toBeNull();
+    expect(detectBotChallenge({ html: '' })).toBeNull();
+  });
+
+  it('usa los marcadores de la tienda y permite desactivar los conocidos', () => {
+    const config = { markers: ['Verificación de seguridad'], title_patterns: ['^Espere'], default_markers: false };
+    expect(detectBotChallenge({ html: page('Tienda', 'Verificación de seguridad') }, config)).toBe('custom');
+    expect(detectBotChallenge({ html: page('Espere un momento') }, config)).toBe('custom');
+    expect(detectBotChallenge({ html: page('Just a moment...') }, config)).toBeNull();
+  });
+
+  it('ignora marcadores con regex inválido', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(detectBotChallenge({ html: page('Tienda') }, { markers: ['('] })).toBeNull();
+    jest.restoreAllMocks();
+  });
+});
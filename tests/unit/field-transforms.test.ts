@@ -0,0 +1,73 @@
+import { applyTransforms, resolveJsonPath } from '../../src/utils/field-transforms';
+
+describe('applyTransforms', () => {
+  it('retorna el valor sin cambios si no hay transformaciones', () => {
+    expect(applyTransforms('  Taladro  ')).toBe('  Taladro  ');
+    expect(applyTransforms('  Taladro  ', [])).toBe('  Taladro  ');
+  });
+
+  it('aplica trim, lowercase y uppercase', () => {
+    expect(applyTransforms('  Taladro \n  DeWalt ', ['trim'])).toBe('Taladro DeWalt');
+    expect(applyTransforms('DeWalt', ['lowercase'])).toBe('dewalt');
+    expect(applyTransforms('dewalt', ['uppercase'])).toBe('DEWALT');
+  });
+
+  it('captura con regex (grupo 1 por defecto, o el grupo indicado)', () => {
+    expect(applyTransforms('SKU: 12345', [{ regex: 'SKU:\\s*(\\d+)' }])).toBe('12345');
+    expect(applyTransforms('SKU: 12345', [{ regex: '\\d+' }])).toBe('12345');
+    expect(applyTransforms('a-b-c', [{ regex: '(\\w)-(\\w)', group: 2 }])).toBe('b');
+    expect(applyTransforms('sin código', [{ regex: '\\d+' }])).toBe('');
+  });
+
+  it('navega JSON con json_path', () => {
+    const json = JSON.stringify({ item: { availability: 'InStock', tags: ['a', 'b'] } });
+    expect(applyTransforms(json, [{ json_path: 'item.availability' }])).toBe('InStock');
+    expect(applyTransforms(json, [{ json_path: 'item.tags[1]' }])).toBe('b');
+    expect(applyTransforms(json, [{ json_path: 'item.tags' }, { join: ',' }])).toBe('a,b');
+    expect(applyTransforms('no es json', [{ json_path: 'a' }])).toBe('');
+  });
+
+  it('divide con split y elige por índice (negativo desde el final)', () => {
+    expect(applyTransforms('Inicio > Herramientas > Taladros', [{ split: '>', index: -1 }])).toBe('Taladros');
+    expect(applyTransforms('Inicio > Herramientas', [{ split: '>', index: 0 }])).toBe('Inicio');
+    expect(applyTransforms('a | b', [{ split: '|' }, { join: '/' }])).toBe('a/b');
+  });
+
+  it('reemplaza con replace', () => {
+    expect(applyTransforms('Marca: Bosch', [{ replace: '^Marca:\\s*' }])).toBe('Bosch');
+    expect(applyTransforms('1-2-3', [{ replace: '-', with: '.' }])).toBe('1.2.3');
+  });
+
+  it('mapea con map: coincidencia exacta, luego por contenido, luego fallback', () => {
+    const map = { 'in stock': 'in_stock', agotado: 'out_of_stock' };
+    expect(applyTransforms('In Stock', [{ map }])).toBe('in_stock');
+    expect(applyTransforms('Producto agotado', [{ map }])).toBe('out_of_stock');
+    expect(applyTransforms('Consultar', [{ map, fallback: 'unknown' }])).toBe('unknown');
+    expect(applyTransforms('Consultar', [{ map }])).toBe('Consultar');
+  });
+
+  it('usa default cuando la cadena deja el valor vacío', () => {
+    expect(applyTransforms('sin stock', [{ regex: '\\d+' }, { default: 'unknown' }])).toBe('unknown');
+    expect(applyTransforms('3', [{ regex: '\\d+' }, { default: 'unknown' }])).toBe('3');
+  });
+
+  it('ignora un regex inválido en replace', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(applyTransforms('abc', [{ replace: '(' }])).toBe('abc');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('resolveJsonPath', () => {
+  const data = { a: { b: [{ c: 1 }, { c: 2 }] } };
+
+  it('acepta índices con corchetes o con punto', () => {
+    expect(resolveJsonPath(data, 'a.b[1].c')).toBe(2);
+    expect(resolveJsonPath(data, 'a.b.0.c')).toBe(1);
+  });
+
+  it('retorna el propio objeto con una ruta vacía y undefined si no existe', () => {
+    expect(resolveJsonPath(data, '')).toBe(data);
+    expect(resolveJsonPath(data, 'a.x.y')).toBeUndefined();
+  });
+});
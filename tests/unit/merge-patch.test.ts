@@ -0,0 +1,43 @@
+import { isPlainObject, mergePatch } from '../../src/utils/merge-patch';
+
+describe('mergePatch', () => {
+  it('combina objetos en profundidad', () => {
+    const target = { name: 'Tienda', scraping: { timeout: 30000, wait_time: 2000 } };
+    expect(mergePatch(target, { scraping: { timeout: 45000 } })).toEqual({
+      name: 'Tienda',
+      scraping: { timeout: 45000, wait_time: 2000 },
+    });
+  });
+
+  it('null elimina la clave', () => {
+    expect(mergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: null, b: { c: null } })).toEqual({ b: { d: 3 } });
+  });
+
+  it('reemplaza listas y valores en lugar de combinarlos', () => {
+    expect(mergePatch({ tags: ['a', 'b'], priority: 1 }, { tags: ['c'], priority: 5 })).toEqual({ tags: ['c'], priority: 5 });
+  });
+
+  it('un parche que no es objeto reemplaza todo el valor', () => {
+    expect(mergePatch({ a: 1 }, ['x'])).toEqual(['x']);
+    expect(mergePatch({ a: 1 }, 'texto')).toBe('texto');
+  });
+
+  it('crea los objetos intermedios y descarta los null anidados', () => {
+    expect(mergePatch('texto', { a: { b: 1, c: null } })).toEqual({ a: { b: 1 } });
+  });
+
+  it('no modifica el objeto original', () => {
+    const target = { scraping: { timeout: 30000 } };
+    mergePatch(target, { scraping: { timeout: null } });
+    expect(target).toEqual({ scraping: { timeout: 30000 } });
+  });
+});
+
+describe('isPlainObject', () => {
+  it('solo acepta objetos que no son listas ni null', () => {
+    expect(isPlainObject({})).toBe(true);
+    expect(isPlainObject([])).toBe(false);
+    expect(isPlainObject(null)).toBe(false);
+    expect(isPlainObject('a')).toBe(false);
+  });
+});
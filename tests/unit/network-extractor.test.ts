@@ -0,0 +1,78 @@
+import { getNetworkExtractorService } from '../../src/services/network-extractor.service';
+import { CapturedResponse } from '../../src/services/playwright.service';
+import { NetworkExtractionConfig } from '../../src/types/store-config.types';
+
+const service = getNetworkExtractorService();
+
+const network: NetworkExtractionConfig = {
+  url_pattern: '/api/search',
+  items_path: 'results',
+  fields: {
+    url: 'link',
+    title: 'title',
+    price: { path: 'price_cents', transforms: [{ replace: '(\\d\\d)$', with: '.$1' }] },
+    regular_price: 'list_price',
+  },
+  page_param: 'page',
+  total_path: 'total',
+};
+
+function configWith(extraction: NetworkExtractionConfig) {
+  return { currency: 'CRC', extraction: { mode: 'network' as const, network: extraction } };
+}
+
+function captured(overrides: Partial<CapturedResponse> = {}): CapturedResponse {
+  return {
+    url: 'https://tienda.cr/api/search?q=taladro&page=1',
+    status: 200,
+    body: { results: [{ title: 'Taladro' }], total: 30 },
+    requestHeaders: { accept: 'application/json', 'content-length': '42', ':authority': 'tienda.cr' },
+    method: 'GET',
+    ...overrides,
+  };
+}
+
+describe('NetworkExtractorService.extractProducts', () => {
+  it('aplica las transformaciones también a los precios numéricos', () => {
+    const body = { results: [{ title: 'Taladro', link: '/taladro', price_cents: 4995000, list_price: 55000 }] };
+    const { products, priceFailures } = service.extractProducts(body, configWith(network));
+
+    expect(priceFailures).toEqual([]);
+    expect(products[0]).toMatchObject({ product_name: 'Taladro', sale_price: 49950, regular_price: 55000, on_sale: true });
+  });
+});
+
+describe('NetworkExtractorService.getNextPageRequest', () => {
+  it('cambia la página en la URL y conserva método y headers reenviables', () => {
+    expect(service.getNextPageRequest(captured(), network, 1)).toEqual({
+      url: 'https://tienda.cr/api/search?q=taladro&page=2',
+      method: 'GET',
+      postData: undefined,
+      headers: { accept: 'application/json' },
+    });
+  });
+
+  it('repite el POST y cambia la página dentro del cuerpo JSON', () => {
+    const response = captured({
+      url: 'https://tienda.cr/api/search',
+      method: 'POST',
+      postData: JSON.stringify({ query: 'taladro', page: 1 }),
+    });
+
+    expect(service.getNextPageRequest(response, network, 1)).toMatchObject({
+      url: 'https://tienda.cr/api/search',
+      method: 'POST',
+      postData: JSON.stringify({ query: 'taladro', page: 2 }),
+    });
+  });
+
+  it('conserva el cuerpo si la página no viene en él', () => {
+    const postData = 'query=taladro';
+    const request = service.getNextPageRequest(captured({ method: 'POST', postData }), network, 1);
+    expect(request).toMatchObject({ method: 'POST', postData, url: expect.stringContaining('page=2') });
+  });
+
+  it('retorna null en la última página', () => {
+    expect(service.getNextPageRequest(captured(), network, 30)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { parsePrice, PriceParseResult } from '../../src/utils/price-parser';
+
+function valueOf(result: PriceParseResult): number | undefined {
+  return result.ok ? result.price.value : undefined;
+}
+
+describe('parsePrice', () => {
+  it('interpreta formatos regionales inferidos', () => {
+    expect(valueOf(parsePrice('₡1.234,50'))).toBe(1234.5);
+    expect(valueOf(parsePrice('¢113,500.00iva'))).toBe(113500);
+    expect(valueOf(parsePrice('$25.99'))).toBe(25.99);
+  });
+
+  it('detecta la moneda por símbolo', () => {
+    const result = parsePrice('US$ 25.99');
+    expect(result).toEqual({ ok: true, price: { value: 25.99, currency: 'USD' } });
+  });
+
+  it('divide las promociones "2 x ₡5000" salvo multi_buy: total', () => {
+    expect(parsePrice('2 x ₡5000')).toEqual({
+      ok: true,
+      price: { value: 2500, currency: 'CRC', quantity: 2 },
+    });
+    expect(valueOf(parsePrice('2 x ₡5000', { multi_buy: 'total' }))).toBe(5000);
+  });
+
+  it('toma el monto con símbolo de moneda e ignora otros números', () => {
+    const result = parsePrice('₡12.900 IVA 13%');
+    expect(result).toEqual({ ok: true, price: { value: 12900, currency: 'CRC' } });
+  });
+
+  it('une los grupos de miles separados por espacio sin configuración', () => {
+    expect(valueOf(parsePrice('₡ 1 234 500'))).toBe(1234500);
+    expect(valueOf(parsePrice('₡12 900,50'))).toBe(12900.5);
+  });
+
+  it('no une grupos con espacio si la tienda usa otro separador de miles', () => {
+    expect(valueOf(parsePrice('₡ 1 234', { thousands_separator: '.' }))).toBe(1);
+  });
+
+  it('usa thousands_separator para decidir el separador decimal', () => {
+    expect(valueOf(parsePrice('₡12.5'))).toBe(12.5);
+    expect(valueOf(parsePrice('₡12.5', { thousands_separator: '.' }))).toBe(125);
+    expect(valueOf(parsePrice('₡1,25', { thousands_separator: '.' }))).toBe(1.25);
+    expect(valueOf(parsePrice('₡1,250', { thousands_separator: '.' }))).toBe(1.25);
+    expect(valueOf(parsePrice('₡1,250', { thousands_separator: ',' }))).toBe(1250);
+  });
+
+  describe('rangos', () => {
+    it('reconoce dos montos con símbolo de moneda', () => {
+      expect(parsePrice('₡10.000 - ₡20.000')).toEqual({
+        ok: true,
+        price: { value: 10000, currency: 'CRC', isRange: true },
+      });
+      expect(valueOf(parsePrice('₡10.000 ₡20.000', { range: 'max' }))).toBe(20000);
+    });
+
+    it('reconoce separadores explícitos entre montos', () => {
+      expect(valueOf(parsePrice('₡10.000 - 20.000', { range: 'max' }))).toBe(20000);
+      expect(valueOf(parsePrice('10.000 a 20.000', { range: 'max' }))).toBe(20000);
+      expect(valueOf(parsePrice('₡10.000 hasta 20.000', { range: 'first' }))).toBe(10000);
+    });
+
+    it('marca "desde" como rango con un solo monto', () => {
+      expect(parsePrice('desde ₡12.900')).toEqual({
+        ok: true,
+        price: { value: 12900, currency: 'CRC', isRange: true },
+      });
+    });
+
+    it('rechaza rangos con range: reject', () => {
+      expect(parsePrice('₡10 - ₡20', { range: 'reject' })).toEqual({ ok: false, reason: 'range_rejected' });
+    });
+
+    it('no trata como rango un segundo número sin marcador', () => {
+      const result = parsePrice('₡12.900 IVA 13%', { range: 'reject' });
+      expect(valueOf(result)).toBe(12900);
+    });
+  });
+
+  it('acepta notación científica', () => {
+    expect(valueOf(parsePrice('1.599e5'))).toBe(159900);
+  });
+
+  it('reporta el motivo de falla', () => {
+    expect(parsePrice('  ')).toEqual({ ok: false, reason: 'empty' });
+    expect(parsePrice('Consultar')).toEqual({ ok: false, reason: 'no_number' });
+    expect(parsePrice('₡0')).toEqual({ ok: false, reason: 'invalid_number' });
+  });
+});
@@ -0,0 +1,49 @@
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, isRetryable, resolveRetryPolicy } from '../../src/utils/retry-policy';
+
+describe('resolveRetryPolicy', () => {
+  it('usa un único intento sin configuración', () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    expect(resolveRetryPolicy().attempts).toBe(1);
+  });
+
+  it('completa la configuración de la tienda con los valores por defecto', () => {
+    expect(resolveRetryPolicy({ attempts: 3, retry_on: ['timeout'] })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      attempts: 3,
+      retry_on: ['timeout'],
+    });
+  });
+
+  it('nunca baja de un intento', () => {
+    expect(resolveRetryPolicy({ attempts: 0 }).attempts).toBe(1);
+  });
+});
+
+describe('isRetryable', () => {
+  it('solo reintenta las clases de retry_on', () => {
+    const policy = resolveRetryPolicy({ retry_on: ['network', 'empty_results'] });
+    expect(isRetryable(policy, 'network')).toBe(true);
+    expect(isRetryable(policy, 'empty_results')).toBe(true);
+    expect(isRetryable(policy, 'http_4xx')).toBe(false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const policy = resolveRetryPolicy({ backoff_ms: 1000, backoff_multiplier: 2, max_backoff_ms: 5000 });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('crece exponencialmente hasta max_backoff_ms', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);  // Sin jitter
+    expect([1, 2, 3, 4].map(attempt => getBackoffDelay(policy, attempt))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('aplica hasta ±20% de jitter', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getBackoffDelay(policy, 1)).toBe(800);
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getBackoffDelay(policy, 1)).toBe(1200);
+  });
+});
@@ -0,0 +1,84 @@
+import { getProductToken, getRobotsGroup, isAllowedByRobots, parseRobotsTxt } from '../../src/utils/robots-txt';
+
+const robots = parseRobotsTxt(`
+# Reglas de la tienda
+User-agent: *
+Disallow: /checkout
+Disallow: /*?sort=
+Allow: /checkout/ayuda$
+Crawl-delay: 2
+
+User-agent: PreciosBot
+User-agent: OtroBot
+Disallow: /busqueda
+Crawl-delay: 5
+
+User-agent: Bot
+Disallow: /
+
+Sitemap: https://tienda.cr/sitemap.xml
+`);
+
+describe('parseRobotsTxt', () => {
+  it('agrupa User-agent consecutivos y lee reglas, Crawl-delay y Sitemap', () => {
+    expect(robots.groups).toHaveLength(3);
+    expect(robots.groups[1]).toEqual({
+      userAgents: ['preciosbot', 'otrobot'],
+      rules: [{ allow: false, path: '/busqueda' }],
+      crawlDelay: 5,
+    });
+    expect(robots.sitemaps).toEqual(['https://tienda.cr/sitemap.xml']);
+  });
+
+  it('trata "Disallow:" vacío como permitir todo', () => {
+    const open = parseRobotsTxt('User-agent: *\nDisallow:');
+    expect(isAllowedByRobots(open, 'PreciosBot/1.0', '/cualquier')).toBe(true);
+  });
+});
+
+describe('getProductToken', () => {
+  it('toma el nombre antes de la versión, en minúsculas', () => {
+    expect(getProductToken('PreciosBot/1.0 (+https://precios.cr/bot)')).toBe('preciosbot');
+    expect(getProductToken('Mozilla/5.0 (Windows NT 10.0; Win64; x64)')).toBe('mozilla');
+    expect(getProductToken('')).toBe('');
+  });
+});
+
+describe('getRobotsGroup', () => {
+  it('elige el grupo por coincidencia exacta del product token, sin distinguir mayúsculas', () => {
+    expect(getRobotsGroup(robots, 'preciosbot/2.0')?.crawlDelay).toBe(5);
+    expect(getRobotsGroup(robots, 'OTROBOT')?.crawlDelay).toBe(5);
+  });
+
+  it('no usa coincidencias parciales y cae al grupo "*"', () => {
+    // "Bot" está contenido en "PreciosBotNuevo" pero no es su product token
+    expect(getRobotsGroup(robots, 'PreciosBotNuevo/1.0')?.crawlDelay).toBe(2);
+    expect(getRobotsGroup(robots, 'Mozilla/5.0 (compatible; Bot/1.0)')?.crawlDelay).toBe(2);
+  });
+
+  it('retorna null si no hay grupo aplicable', () => {
+    expect(getRobotsGroup(parseRobotsTxt('User-agent: OtroBot\nDisallow: /'), 'PreciosBot')).toBeNull();
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const agent = 'Mozilla/5.0';
+
+  it('gana la regla más larga y en empate gana Allow', () => {
+    expect(isAllowedByRobots(robots, agent, '/checkout/pago')).toBe(false);
+    expect(isAllowedByRobots(robots, agent, '/checkout/ayuda')).toBe(true);
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: *\nDisallow: /a\nAllow: /a'), agent, '/a')).toBe(true);
+  });
+
+  it('soporta comodines * y $', () => {
+    expect(isAllowedByRobots(robots, agent, '/taladros?sort=precio')).toBe(false);
+    expect(isAllowedByRobots(robots, agent, '/taladros?page=2')).toBe(true);
+    expect(isAllowedByRobots(robots, agent, '/checkout/ayuda/mas')).toBe(false);
+  });
+
+  it('aplica solo las reglas del grupo del crawler', () => {
+    expect(isAllowedByRobots(robots, 'PreciosBot/1.0', '/busqueda?q=taladro')).toBe(false);
+    expect(isAllowedByRobots(robots, 'PreciosBot/1.0', '/checkout')).toBe(true);
+    expect(isAllowedByRobots(robots, 'Bot/1.0', '/productos')).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { getTemplatePlaceholders, parseSearchParams, renderBrowseUrl, renderSearchUrl } from '../../src/utils/search-url';
+import { SearchConfig } from '../../src/types/store-config.types';
+
+const search: SearchConfig = {
+  url_template: 'https://tienda.cr/buscar?q={query}&orden={sort}&p={page}',
+  params: [
+    { name: 'query', required: true },
+    { name: 'sort', values: { price_asc: 'precio', price_desc: '-precio' } },
+    { name: 'page', default: 1 },
+  ],
+};
+
+describe('getTemplatePlaceholders', () => {
+  it('lista cada placeholder una sola vez', () => {
+    expect(getTemplatePlaceholders('https://t.cr/{category}/{query}?q={query}')).toEqual(['category', 'query']);
+  });
+});
+
+describe('renderSearchUrl', () => {
+  it('reemplaza los placeholders y usa los defaults', () => {
+    expect(renderSearchUrl(search, { query: 'taladro', sort: 'price_desc' })).toEqual({
+      url: 'https://tienda.cr/buscar?q=taladro&orden=-precio&p=1',
+      applied: ['query', 'sort'],
+      ignored: [],
+      missing: [],
+    });
+  });
+
+  it('quita el parámetro sin valor junto con su clave', () => {
+    const config: SearchConfig = { url_template: 'https://tienda.cr/buscar?orden={sort}&q={query}&p={page}' };
+    expect(renderSearchUrl(config, { query: 'taladro' }).url).toBe('https://tienda.cr/buscar?q=taladro');
+    expect(renderSearchUrl({ url_template: 'https://tienda.cr/s?q={query}&p={page}#res' }, { query: 'a' }).url)
+      .toBe('https://tienda.cr/s?q=a#res');
+  });
+
+  it('ignora valores sin mapeo y parámetros que la tienda no soporta', () => {
+    expect(renderSearchUrl(search, { query: 'taladro', sort: 'relevance', min_price: 100 })).toEqual({
+      url: 'https://tienda.cr/buscar?q=taladro&p=1',
+      applied: ['query'],
+      ignored: ['min_price', 'sort'],
+      missing: [],
+    });
+  });
+
+  it('retorna url null si falta un parámetro requerido', () => {
+    const config: SearchConfig = { ...search, url_template: `${search.url_template}&tienda={store}`, params: [...search.params!, { name: 'store', required: true }] };
+    expect(renderSearchUrl(config, { query: 'taladro' })).toMatchObject({ url: null, missing: ['store'] });
+    expect(renderSearchUrl(search, {})).toMatchObject({ url: null, missing: ['query'] });
+  });
+
+  it.each([
+    ['component', 'llave inglesa/ñ', 'llave%20inglesa%2F%C3%B1'],
+    ['plus', 'llave inglesa', 'llave+inglesa'],
+    ['path', 'herramientas/eléctricas', 'herramientas/el%C3%A9ctricas'],
+    ['slug', ' Herramientas Eléctricas & más ', 'herramientas-electricas-mas'],
+    ['raw', 'a b/c', 'a b/c'],
+  ] as const)('codifica con encoding %s', (encoding, value, expected) => {
+    const config: SearchConfig = { url_template: 'https://tienda.cr/{query}', params: [{ name: 'query', encoding }] };
+    expect(renderSearchUrl(config, { query: value }).url).toBe(`https://tienda.cr/${expected}`);
+  });
+});
+
+describe('renderBrowseUrl', () => {
+  const term = { id: 'herramientas-electricas', name: 'Herramientas eléctricas' };
+
+  it('usa el slug de la tienda y los demás parámetros', () => {
+    const browse = {
+      url_template: 'https://tienda.cr/{category}.html?p={page}',
+      encoding: 'path' as const,
+      values: { 'herramientas-electricas': 'herramientas/electricas' },
+    };
+    expect(renderBrowseUrl(browse, 'category', term, { page: 2, query: 'ignorado' })).toMatchObject({
+      url: 'https://tienda.cr/herramientas/electricas.html?p=2',
+      applied: ['category', 'page'],
+      ignored: ['query'],
+    });
+  });
+
+  it('reporta el tipo como faltante si la tienda no mapea el término', () => {
+    const browse = { url_template: 'https://tienda.cr/{category}', values: { pinturas: 'pinturas' } };
+    expect(renderBrowseUrl(browse, 'category', term, {})).toEqual({ url: null, applied: [], ignored: [], missing: ['category'] });
+  });
+});
+
+describe('parseSearchParams', () => {
+  it('acepta textos y números y descarta valores vacíos', () => {
+    expect(parseSearchParams({ page: 2, sort: 'price_asc', category: '', min_price: null })).toEqual({ params: { page: 2, sort: 'price_asc' } });
+    expect(parseSearchParams(undefined)).toEqual({ params: {} });
+  });
+
+  it.each([
+    [[1, 2], '"params" debe ser un objeto'],
+    [{ query: 'taladro' }, 'se indica con el campo "search"'],
+    [{ sort: { a: 1 } }, '"sort" debe ser un texto o un número'],
+    [{ page: 0 }, '"page" debe ser un entero >= 1'],
+    [{ page_size: '2.5' }, '"page_size" debe ser un entero >= 1'],
+    [{ min_price: -1 }, '"min_price" debe ser un número >= 0'],
+    [{ min_price: 500, max_price: '100' }, 'min_price no puede ser mayor que max_price'],
+  ])('rechaza %j', (value, message) => {
+    expect(parseSearchParams(value)).toEqual({ error: expect.stringContaining(message) });
+  });
+});
@@ -0,0 +1,45 @@
+import * as cheerio from 'cheerio';
+import { describeSelector, findFirstMatch, toSelectorAlternatives } from '../../src/utils/selector-alternatives';
+
+describe('toSelectorAlternatives', () => {
+  it('convierte un string en una alternativa con el atributo por defecto', () => {
+    expect(toSelectorAlternatives('.price', 'data-price')).toEqual([
+      { selector: '.price', attribute: 'data-price' },
+    ]);
+  });
+
+  it('respeta el atributo de cada alternativa y usa el default en las demás', () => {
+    expect(toSelectorAlternatives(["[itemprop='price']", { selector: '.price-box .price', attribute: 'text' }], 'content'))
+      .toEqual([
+        { selector: "[itemprop='price']", attribute: 'content' },
+        { selector: '.price-box .price', attribute: 'text' },
+      ]);
+  });
+
+  it('descarta alternativas vacías y acepta spec indefinido', () => {
+    expect(toSelectorAlternatives(['', '.a'])).toEqual([{ selector: '.a', attribute: 'text' }]);
+    expect(toSelectorAlternatives(undefined)).toEqual([]);
+  });
+});
+
+describe('findFirstMatch', () => {
+  const $ = cheerio.load('<div class="item"><span class="old">₡100</span><span class="new">₡90</span></div>');
+  const $item = $('.item');
+
+  it('retorna la primera alternativa que encuentra elementos', () => {
+    const match = findFirstMatch($item, ['.missing', '.new', '.old']);
+    expect(match?.selector).toBe('.new');
+    expect(match?.elements.text()).toBe('₡90');
+  });
+
+  it('retorna null si ninguna alternativa encuentra algo', () => {
+    expect(findFirstMatch($item, ['.missing', '.other'])).toBeNull();
+    expect(findFirstMatch($item, undefined)).toBeNull();
+  });
+});
+
+describe('describeSelector', () => {
+  it('une las alternativas para los logs', () => {
+    expect(describeSelector(['.a', { selector: '.b', attribute: 'href' }])).toBe('.a | .b');
+  });
+});
@@ -0,0 +1,44 @@
+import * as cheerio from 'cheerio';
+import { getSelectorExtractorService } from '../../src/services/selector-extractor.service';
+import { ProductDetailSelectors } from '../../src/types/store-config.types';
+
+const service = getSelectorExtractorService();
+
+const page = cheerio.load(`
+  <h2>Taladro percutor DEWALT 20V</h2>
+  <span class="marca" data-brand="  Makita "></span>
+  <table>
+    <tr><th>Modelo</th><td>DCD778</td></tr>
+    <tr><th>Marca del producto</th><td>DeWalt</td></tr>
+  </table>
+`);
+
+function detail(overrides: Partial<ProductDetailSelectors>): ProductDetailSelectors {
+  return { title: 'h2', price: '.precio', price_attribute: 'text', ...overrides };
+}
+
+describe('SelectorExtractorService.extractDetailBrand', () => {
+  it('usa la primera alternativa de la cadena que encuentra un valor', () => {
+    const brand = ['.marca-oficial', { selector: '.marca', attribute: 'data-brand' }, 'h2'];
+    expect(service.extractDetailBrand(page, detail({ brand, brand_transforms: ['trim', 'uppercase'] }))).toBe('MAKITA');
+  });
+
+  it('aplica brand_attribute y brand_transforms a un selector simple', () => {
+    const brand = detail({ brand: 'h2', brand_transforms: [{ regex: '(DEWALT|MAKITA)' }] });
+    expect(service.extractDetailBrand(page, brand)).toBe('DEWALT');
+  });
+
+  it('mantiene los formatos antiguos regex y table_search', () => {
+    expect(service.extractDetailBrand(page, detail({
+      brand: { selector: 'h2', extraction_method: 'regex', regex_pattern: '(dewalt|makita)' },
+    }))).toBe('DEWALT');
+    expect(service.extractDetailBrand(page, detail({
+      brand: { selector: 'h2', extraction_method: 'table_search', search_label: 'marca' },
+    }))).toBe('DeWalt');
+  });
+
+  it('retorna vacío sin brand o si ninguna alternativa encuentra algo', () => {
+    expect(service.extractDetailBrand(page, detail({}))).toBe('');
+    expect(service.extractDetailBrand(page, detail({ brand: ['.no-existe', '.tampoco'] }))).toBe('');
+  });
+});
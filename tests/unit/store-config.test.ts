@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StoreConfigService } from '../../src/services/store-config.service';
+
+const BASE_TEMPLATE = `
+currency: CRC
+product_list:
+  container: ".productos"
+  item: ".producto"
+  selectors:
+    title: ".titulo"
+    title_attribute: "text"
+    price: ".precio"
+    price_attribute: "text"
+scraping:
+  wait_time: 2000
+  scroll: true
+  user_agent: "Mozilla/5.0"
+  headers:
+    accept-language: "es-CR"
+    x-tienda: "base"
+`;
+
+const CHILD_TEMPLATE = `
+extends: base
+scraping:
+  wait_time: 500
+  headers:
+    x-tienda: null
+`;
+
+const store = {
+  name: 'Tienda',
+  domain: 'tienda.cr',
+  country: 'CR',
+  search: { url_template: 'https://tienda.cr/buscar?q={query}' },
+};
+
+describe('StoreConfigService: extends', () => {
+  let configDir: string;
+  let service: StoreConfigService;
+
+  beforeAll(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-config-'));
+    fs.writeFileSync(path.join(configDir, 'base.template.yaml'), BASE_TEMPLATE);
+    fs.writeFileSync(path.join(configDir, 'hija.template.yaml'), CHILD_TEMPLATE);
+    fs.writeFileSync(path.join(configDir, 'ciclo-a.template.yaml'), 'extends: ciclo-b\n');
+    fs.writeFileSync(path.join(configDir, 'ciclo-b.template.yaml'), 'extends: ciclo-a\n');
+    fs.writeFileSync(path.join(configDir, 'lista.template.yml'), '- no es un objeto\n');
+    service = new StoreConfigService(configDir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('completa la tienda con la plantilla', () => {
+    const validation = service.validateDraft({ ...store, extends: 'base' });
+    expect(validation.valid).toBe(true);
+    expect(validation.valid && validation.config).toMatchObject({
+      extends: 'base',
+      currency: 'CRC',
+      product_list: { item: '.producto' },
+      scraping: { wait_time: 2000 },
+    });
+  });
+
+  it('aplica la cadena de plantillas de la más general a la tienda', () => {
+    const validation = service.validateDraft({ ...store, extends: 'hija', currency: 'USD', scraping: { scroll: false } });
+    if (!validation.valid) throw new Error(JSON.stringify(validation.errors));
+
+    expect(validation.config.extends).toBe('hija');
+    expect(validation.config.currency).toBe('USD');
+    expect(validation.config.scraping).toEqual({
+      wait_time: 500,
+      scroll: false,
+      user_agent: 'Mozilla/5.0',
+      headers: { 'accept-language': 'es-CR' },
+    });
+  });
+
+  it('resuelve extends también al validar YAML', () => {
+    const contents = 'extends: base\nname: Tienda\ndomain: tienda.cr\ncountry: CR\nsearch:\n  url_template: "https://tienda.cr/?q={query}"\n';
+    expect(service.validateYaml(contents).valid).toBe(true);
+  });
+
+  it.each([
+    ['no-existe', 'No existe la plantilla "no-existe"'],
+    ['../base', 'Nombre de plantilla inválido'],
+    ['ciclo-a', 'Herencia circular: ciclo-a -> ciclo-b -> ciclo-a'],
+    ['lista', 'lista.template.yml debe ser un objeto'],
+  ])('reporta el error de extends: %s', (parent, message) => {
+    const validation = service.validateDraft({ ...store, extends: parent });
+    expect(validation).toEqual({ valid: false, errors: [{ path: 'extends', message: expect.stringContaining(message) }] });
+  });
+
+  it('exige el mapa values de los listados y que sus claves sean ids de la taxonomía', () => {
+    const validation = service.validateDraft({
+      ...store,
+      extends: 'base',
+      search: {
+        ...store.search,
+        category: { url_template: 'https://tienda.cr/{category}' },
+        brand: { url_template: 'https://tienda.cr/marca/{brand}', values: { dewalt: 'dewalt', dewlat: 'dewalt' } },
+      },
+    });
+    expect(!validation.valid && validation.errors.map(error => error.path)).toEqual([
+      'search.category.values',
+      'search.brand.values.dewlat',
+    ]);
+  });
+
+  it('rechaza proxies SOCKS con engine http', () => {
+    const scraping = { engine: 'http', proxy: { servers: ['http://proxy.cr:8080', 'socks5://proxy.cr:1080'] } };
+    const validation = service.validateDraft({ ...store, extends: 'base', scraping });
+    expect(!validation.valid && validation.errors.map(error => error.path)).toEqual(['scraping.proxy.servers[1]']);
+    expect(service.validateDraft({ ...store, extends: 'base', scraping: { ...scraping, engine: 'browser' } }).valid).toBe(true);
+  });
+
+  it('no crea una tienda con nombre de plantilla', () => {
+    const result = service.createStore({ ...store, extends: 'base', domain: 'base.template' });
+    expect(result).toMatchObject({ ok: false, reason: 'invalid' });
+    expect(fs.readFileSync(path.join(configDir, 'base.template.yaml'), 'utf8')).toBe(BASE_TEMPLATE);
+  });
+
+  it('sin extends valida la tienda tal cual', () => {
+    const validation = service.validateDraft(store);
+    expect(validation.valid).toBe(false);
+    expect(!validation.valid && validation.errors.map(error => error.path)).toContain('product_list');
+  });
+});
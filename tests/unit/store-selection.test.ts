@@ -0,0 +1,56 @@
+import { findUnknownStores, SelectableStoreConfig, selectStores } from '../../src/utils/store-selection';
+
+function store(domain: string, config: Omit<SelectableStoreConfig, 'domain'> = {}): { domain: string; config: SelectableStoreConfig } {
+  return { domain, config: { domain, ...config } };
+}
+
+const stores = [
+  store('epa.cr', { tags: ['Ferreteria', 'hogar'], priority: 5, region: 'GAM' }),
+  store('novex.cr', { tags: ['ferreteria'], priority: 10, region: 'GAM' }),
+  store('elverdugo.cr', { tags: ['ferreteria', 'construccion'], region: 'Guanacaste' }),
+  store('cemaco.cr', { tags: ['hogar'], priority: 5, enabled: false }),
+];
+
+describe('selectStores', () => {
+  it('sin selección usa todas las habilitadas, ordenadas por priority y dominio', () => {
+    expect(selectStores(stores)).toEqual({
+      selected: ['novex.cr', 'epa.cr', 'elverdugo.cr'],
+      skipped: [{ domain: 'cemaco.cr', reason: 'disabled' }],
+    });
+  });
+
+  it('incluye por dominio o por tag, sin distinguir mayúsculas ni "www."', () => {
+    const { selected, skipped } = selectStores(stores, { includeStores: ['www.ElVerdugo.cr'], tags: ['HOGAR'] });
+    expect(selected).toEqual(['epa.cr', 'elverdugo.cr']);
+    expect(skipped).toContainEqual({ domain: 'novex.cr', reason: 'not_included' });
+  });
+
+  it('la exclusión gana sobre la inclusión', () => {
+    const { selected, skipped } = selectStores(stores, { tags: ['ferreteria'], excludeTags: ['construccion'], excludeStores: ['epa.cr'] });
+    expect(selected).toEqual(['novex.cr']);
+    expect(skipped).toEqual(expect.arrayContaining([
+      { domain: 'epa.cr', reason: 'excluded' },
+      { domain: 'elverdugo.cr', reason: 'excluded' },
+    ]));
+  });
+
+  it('filtra por región y descarta tiendas sin región', () => {
+    const { selected, skipped } = selectStores([...stores, store('sinregion.cr')], { regions: ['gam'] });
+    expect(selected).toEqual(['novex.cr', 'epa.cr']);
+    expect(skipped).toEqual(expect.arrayContaining([
+      { domain: 'elverdugo.cr', reason: 'region' },
+      { domain: 'sinregion.cr', reason: 'region' },
+    ]));
+  });
+
+  it('una tienda deshabilitada no participa aunque se incluya explícitamente', () => {
+    expect(selectStores(stores, { includeStores: ['cemaco.cr'] }).skipped).toContainEqual({ domain: 'cemaco.cr', reason: 'disabled' });
+  });
+});
+
+describe('findUnknownStores', () => {
+  it('retorna los dominios pedidos que no corresponden a ninguna tienda', () => {
+    expect(findUnknownStores(['WWW.epa.cr', 'noexiste.cr'], ['epa.cr', 'novex.cr'])).toEqual(['noexiste.cr']);
+    expect(findUnknownStores(undefined, ['epa.cr'])).toEqual([]);
+  });
+});
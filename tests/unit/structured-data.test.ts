@@ -0,0 +1,114 @@
+import { getStructuredDataService } from '../../src/services/structured-data.service';
+
+const service = getStructuredDataService();
+
+function jsonLd(data: unknown): string {
+  return `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+}
+
+describe('StructuredDataService.extractProducts', () => {
+  it('lee productos de JSON-LD dentro de @graph e ItemList', () => {
+    const html = jsonLd({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebPage', name: 'Búsqueda' },
+        {
+          '@type': 'ItemList',
+          itemListElement: [
+            {
+              '@type': 'ListItem',
+              item: {
+                '@type': 'Product',
+                name: 'Taladro DeWalt',
+                url: '/taladro-dewalt',
+                brand: { '@type': 'Brand', name: 'DeWalt' },
+                image: [{ url: 'https://cdn/a.jpg' }, 'https://cdn/b.jpg'],
+                offers: {
+                  price: '49950.00',
+                  priceCurrency: 'CRC',
+                  availability: 'https://schema.org/InStock',
+                },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(service.extractProducts(html)).toEqual([
+      {
+        name: 'Taladro DeWalt',
+        url: '/taladro-dewalt',
+        price: 49950,
+        currency: 'CRC',
+        availability: 'InStock',
+        brand: 'DeWalt',
+        sku: undefined,
+        gtin: undefined,
+        images: ['https://cdn/a.jpg', 'https://cdn/b.jpg'],
+        description: undefined,
+        source: 'json-ld',
+      },
+    ]);
+  });
+
+  it('usa lowPrice y priceSpecification si no hay price', () => {
+    const html = jsonLd([
+      { '@type': 'Product', name: 'A', offers: [{ lowPrice: 1000 }] },
+      { '@type': ['Product'], name: 'B', offers: { priceSpecification: { price: '2500.50', priceCurrency: 'USD' } } },
+    ]);
+
+    const products = service.extractProducts(html);
+    expect(products.map(product => [product.name, product.price, product.currency])).toEqual([
+      ['A', 1000, undefined],
+      ['B', 2500.5, 'USD'],
+    ]);
+  });
+
+  it('usa microdata si no hay JSON-LD e ignora propiedades de otras entidades', () => {
+    const html = `
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">Martillo</span>
+        <div itemprop="brand" itemscope itemtype="https://schema.org/Brand"><span itemprop="name">Stanley</span></div>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="price" content="7500">
+          <meta itemprop="priceCurrency" content="CRC">
+        </div>
+      </div>`;
+
+    const [product] = service.extractProducts(html);
+    expect(product).toMatchObject({ name: 'Martillo', brand: 'Stanley', price: 7500, currency: 'CRC', source: 'microdata' });
+  });
+
+  it('ignora JSON-LD inválido', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(service.extractProducts('<script type="application/ld+json">{ no es json</script>')).toEqual([]);
+    jest.restoreAllMocks();
+  });
+});
+
+describe('StructuredDataService.extractProduct', () => {
+  it('completa JSON-LD con OpenGraph', () => {
+    const html = `
+      <head>
+        <meta property="og:title" content="Sierra circular">
+        <meta property="og:image" content="https://cdn/sierra.jpg">
+        <meta property="product:price:amount" content="89900">
+        <meta property="product:price:currency" content="CRC">
+      </head>
+      ${jsonLd({ '@type': 'Product', name: 'Sierra circular Makita', sku: 'HS7600' })}`;
+
+    expect(service.extractProduct(html)).toMatchObject({
+      name: 'Sierra circular Makita',
+      sku: 'HS7600',
+      price: 89900,
+      currency: 'CRC',
+      images: ['https://cdn/sierra.jpg'],
+      source: 'json-ld',
+    });
+  });
+
+  it('retorna null si la página no tiene datos estructurados', () => {
+    expect(service.extractProduct('<p>Hola</p>')).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { TokenBucket } from '../../src/utils/token-bucket';
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('deja pasar el burst sin esperar', async () => {
+    const bucket = new TokenBucket({ ratePerSecond: 1, burst: 2 });
+    await expect(bucket.take()).resolves.toBe(0);
+    await expect(bucket.take()).resolves.toBe(0);
+    expect(bucket.available).toBe(0);
+  });
+
+  it('espera la recarga cuando no hay tokens y atiende en orden', async () => {
+    const bucket = new TokenBucket({ ratePerSecond: 2, burst: 1 });
+    const order: number[] = [];
+
+    const turns = [1, 2, 3].map(id => bucket.take().then(waited => {
+      order.push(id);
+      return waited;
+    }));
+    expect(bucket.pending).toBe(3);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(Promise.all(turns)).resolves.toEqual([0, 500, 500]);
+    expect(order).toEqual([1, 2, 3]);
+    expect(bucket.pending).toBe(0);
+  });
+
+  it('recarga con el tiempo hasta el burst', async () => {
+    const bucket = new TokenBucket({ ratePerSecond: 1, burst: 3 });
+    await bucket.take();
+    await bucket.take();
+    jest.advanceTimersByTime(10000);
+    expect(bucket.available).toBe(3);
+  });
+
+  it('setLimit recorta los tokens al nuevo burst', () => {
+    const bucket = new TokenBucket({ ratePerSecond: 5, burst: 5 });
+    bucket.setLimit({ ratePerSecond: 1, burst: 1 });
+    expect(bucket.available).toBe(1);
+    expect(bucket.limit).toEqual({ ratePerSecond: 1, burst: 1 });
+  });
+});